@@ -0,0 +1,153 @@
+import { describe, expect, expectTypeOf, it } from "vitest"
+import { createMemoryRedis } from "../tests/memory-redis"
+import { bindClient, fromIoredis, fromNodeRedis } from "./adapters"
+import {
+	RedisKeyBuilderError,
+	codec,
+	createKeyBuilder,
+	defineChannel,
+	defineKey,
+	p,
+	parameterize,
+	withTtl,
+} from "./index"
+
+const keys = createKeyBuilder()({
+	user: parameterize([p("userId")], {
+		profile: defineKey(["profile"], { type: "json", value: codec.json<{ name: string }>() }),
+		visits: defineKey(["visits"], { value: codec.number }),
+		settings: defineKey(["settings"], { type: "hash", value: codec.boolean }),
+		tags: defineKey(["tags"], { type: "set" }),
+		scores: defineKey(["scores"], { type: "zset" }),
+	}),
+	raw: ["raw", p.number("id")],
+	events: defineChannel(["events", p("userId")]),
+})
+
+describe("Client Adapters", () => {
+	for (const [clientName, adapt] of [
+		["ioredis", (redis: ReturnType<typeof createMemoryRedis>) => fromIoredis(redis.ioredis)],
+		["node-redis", (redis: ReturnType<typeof createMemoryRedis>) => fromNodeRedis(redis.nodeRedis)],
+	] as const) {
+		describe(clientName, () => {
+			it("should encode and decode string values through the key's codec", async () => {
+				const redis = createMemoryRedis()
+				const bound = bindClient(keys, adapt(redis))
+				const visits = bound.user({ userId: "u1" }).visits()
+
+				expect(visits.key).toBe("user:u1:visits")
+				expect(await visits.get()).toBeNull()
+				await visits.set(42)
+				expect(redis.data.get("user:u1:visits")).toEqual({ type: "string", value: "42" })
+				expect(await visits.get()).toBe(42)
+
+				await bound.user({ userId: "u1" }).profile().set({ name: "Ada" })
+				expect(await bound.user({ userId: "u1" }).profile().get()).toEqual({ name: "Ada" })
+			})
+
+			it("should pass expiry through and support del/exists/expire", async () => {
+				const redis = createMemoryRedis()
+				const visits = bindClient(keys, adapt(redis)).user({ userId: "u1" }).visits()
+
+				await visits.set(1, { px: 5000 })
+				expect(redis.expiries.get("user:u1:visits")).toBe(5000)
+				expect(await visits.expire(1.5)).toBe(true)
+				expect(redis.expiries.get("user:u1:visits")).toBe(1500)
+				expect(await visits.expire(0.0001)).toBe(true)
+				expect(redis.expiries.get("user:u1:visits")).toBe(1)
+				await expect(visits.expire(0)).rejects.toThrow(/expected a positive number of seconds, got 0/)
+				await expect(visits.expire(-1)).rejects.toBeInstanceOf(RedisKeyBuilderError)
+				expect(await visits.exists()).toBe(true)
+				expect(await visits.del()).toBe(true)
+				expect(await visits.exists()).toBe(false)
+				expect(await visits.del()).toBe(false)
+			})
+
+			it("should offer hash, set and sorted set commands for the matching data types", async () => {
+				const redis = createMemoryRedis()
+				const user = bindClient(keys, adapt(redis)).user({ userId: "u1" })
+
+				await user.settings().hset("darkMode", true)
+				await user.settings().hset("beta", false)
+				expect(await user.settings().hget("darkMode")).toBe(true)
+				expect(await user.settings().hgetall()).toEqual({ darkMode: true, beta: false })
+				expect(await user.settings().hdel("beta")).toBe(1)
+
+				expect(await user.tags().sadd("a", "b", "a")).toBe(2)
+				expect(await user.tags().sismember("b")).toBe(true)
+				expect(await user.tags().srem("b")).toBe(1)
+				expect(await user.tags().smembers()).toEqual(["a"])
+
+				await user.scores().zadd(2, "second")
+				await user.scores().zadd(1, "first")
+				expect(await user.scores().zscore("second")).toBe(2)
+				expect(await user.scores().zscore("missing")).toBeNull()
+				expect(await user.scores().zrange(0, -1)).toEqual(["first", "second"])
+				expect(await user.scores().zrem("first")).toBe(1)
+			})
+		})
+	}
+
+	it("should only attach the operations supported by the key's data type", () => {
+		const user = bindClient(keys, fromIoredis(createMemoryRedis().ioredis)).user({ userId: "u1" })
+
+		expect(user.tags()).toHaveProperty("sadd")
+		expect(user.tags()).not.toHaveProperty("get")
+		expect(user.settings()).not.toHaveProperty("zadd")
+
+		expectTypeOf(user.visits().get).returns.resolves.toEqualTypeOf<number | null>()
+		expectTypeOf(user.profile().get).returns.resolves.toEqualTypeOf<{ name: string } | null>()
+		expectTypeOf(user.settings().hget).returns.resolves.toEqualTypeOf<boolean | null>()
+	})
+
+	it("should treat plain leaves as raw strings with every operation available", async () => {
+		const redis = createMemoryRedis()
+		const raw = bindClient(keys, fromIoredis(redis.ioredis)).raw({ id: 7 })
+
+		expect(raw.key).toBe("raw:7")
+		await raw.set("value")
+		expect(await raw.get()).toBe("value")
+		expectTypeOf(raw.get).returns.resolves.toEqualTypeOf<string | null>()
+		expectTypeOf(raw).toHaveProperty("sadd")
+	})
+
+	it("should leave out channel builders", () => {
+		const bound = bindClient(keys, fromIoredis(createMemoryRedis().ioredis))
+
+		expect(bound).not.toHaveProperty("events")
+		expectTypeOf(bound).not.toHaveProperty("events")
+	})
+
+	it("should apply the key's TTL policy on writes", async () => {
+		const redis = createMemoryRedis()
+		const bound = bindClient(
+			createKeyBuilder()({
+				session: withTtl(
+					parameterize(p("sessionId"), { data: ["data"], members: defineKey(["members"], { type: "set" }) }),
+					{
+						seconds: 60,
+					}
+				),
+				counter: ["counter"],
+			}),
+			fromIoredis(redis.ioredis)
+		)
+
+		await bound.session({ sessionId: "s-1" }).data().set("x")
+		expect(redis.expiries.get("session:s-1:data")).toBe(60_000)
+		await bound.session({ sessionId: "s-1" }).data().set("x", { px: 10 })
+		expect(redis.expiries.get("session:s-1:data")).toBe(10)
+		await bound.session({ sessionId: "s-1" }).members().sadd("a")
+		expect(redis.expiries.get("session:s-1:members")).toBe(60_000)
+		await bound.counter().set("1")
+		expect(redis.expiries.has("counter")).toBe(false)
+	})
+
+	it("should bind a sub-level obtained from the schema", async () => {
+		const redis = createMemoryRedis()
+		const user = bindClient(keys.user({ userId: "u2" }), fromNodeRedis(redis.nodeRedis))
+
+		await user.visits().set(3)
+		expect(redis.data.get("user:u2:visits")).toEqual({ type: "string", value: "3" })
+	})
+})
@@ -0,0 +1,339 @@
+import { type RedisDataType, type RedisKey, RedisKeyBuilderError, type ValueCodec, codec } from "./index"
+
+// --- Client Interface ---
+
+/**
+ * The handful of commands the adapter needs, normalized across clients.
+ * `fromIoredis` and `fromNodeRedis` implement it on top of the real clients;
+ * anything else (a fake, a proxy, another library) can implement it directly.
+ */
+export interface RedisCommandClient {
+	get: (key: string) => Promise<string | null>
+	set: (key: string, value: string, expireMs?: number) => Promise<unknown>
+	del: (key: string) => Promise<number>
+	pexpire: (key: string, milliseconds: number) => Promise<boolean>
+	exists: (key: string) => Promise<boolean>
+	hget: (key: string, field: string) => Promise<string | null>
+	hset: (key: string, field: string, value: string) => Promise<unknown>
+	hgetall: (key: string) => Promise<Record<string, string>>
+	hdel: (key: string, fields: ReadonlyArray<string>) => Promise<number>
+	sadd: (key: string, members: ReadonlyArray<string>) => Promise<number>
+	srem: (key: string, members: ReadonlyArray<string>) => Promise<number>
+	smembers: (key: string) => Promise<string[]>
+	sismember: (key: string, member: string) => Promise<boolean>
+	zadd: (key: string, score: number, member: string) => Promise<unknown>
+	zrem: (key: string, members: ReadonlyArray<string>) => Promise<number>
+	zscore: (key: string, member: string) => Promise<number | null>
+	zrange: (key: string, start: number, stop: number) => Promise<string[]>
+}
+
+/** The subset of an `ioredis` client used by `fromIoredis` (structural, no dependency on the package) */
+export interface IoredisLike {
+	get(key: string): Promise<string | null>
+	set(key: string, value: string, ...args: Array<string | number>): Promise<unknown>
+	del(...keys: string[]): Promise<number>
+	pexpire(key: string, milliseconds: number): Promise<number>
+	exists(...keys: string[]): Promise<number>
+	hget(key: string, field: string): Promise<string | null>
+	hset(key: string, field: string, value: string): Promise<number>
+	hgetall(key: string): Promise<Record<string, string>>
+	hdel(key: string, ...fields: string[]): Promise<number>
+	sadd(key: string, ...members: string[]): Promise<number>
+	srem(key: string, ...members: string[]): Promise<number>
+	smembers(key: string): Promise<string[]>
+	sismember(key: string, member: string): Promise<number>
+	zadd(key: string, score: number, member: string): Promise<unknown>
+	zrem(key: string, ...members: string[]): Promise<number>
+	zscore(key: string, member: string): Promise<string | null>
+	zrange(key: string, start: number, stop: number): Promise<string[]>
+}
+
+/** The subset of a `node-redis` (v4+) client used by `fromNodeRedis` (structural, no dependency on the package) */
+export interface NodeRedisLike {
+	get(key: string): Promise<string | null>
+	set(key: string, value: string, options?: { PX?: number }): Promise<unknown>
+	del(keys: string | string[]): Promise<number>
+	pExpire(key: string, milliseconds: number): Promise<boolean | number>
+	exists(keys: string | string[]): Promise<number>
+	hGet(key: string, field: string): Promise<string | null | undefined>
+	hSet(key: string, field: string, value: string): Promise<number>
+	hGetAll(key: string): Promise<Record<string, string>>
+	hDel(key: string, fields: string | string[]): Promise<number>
+	sAdd(key: string, members: string | string[]): Promise<number>
+	sRem(key: string, members: string | string[]): Promise<number>
+	sMembers(key: string): Promise<string[]>
+	sIsMember(key: string, member: string): Promise<boolean | number>
+	zAdd(key: string, member: { score: number; value: string }): Promise<unknown>
+	zRem(key: string, members: string | string[]): Promise<number>
+	zScore(key: string, member: string): Promise<number | null>
+	zRange(key: string, start: number, stop: number): Promise<string[]>
+}
+
+/**
+ * Adapts an `ioredis` client (or cluster) to the adapter's command interface.
+ * @param client An `ioredis` instance.
+ * @returns The normalized client to pass to `bindClient`.
+ */
+export function fromIoredis(client: IoredisLike): RedisCommandClient {
+	return {
+		get: (key) => client.get(key),
+		set: (key, value, expireMs) =>
+			expireMs === undefined ? client.set(key, value) : client.set(key, value, "PX", expireMs),
+		del: (key) => client.del(key),
+		pexpire: async (key, milliseconds) => (await client.pexpire(key, milliseconds)) === 1,
+		exists: async (key) => (await client.exists(key)) > 0,
+		hget: (key, field) => client.hget(key, field),
+		hset: (key, field, value) => client.hset(key, field, value),
+		hgetall: (key) => client.hgetall(key),
+		hdel: (key, fields) => client.hdel(key, ...fields),
+		sadd: (key, members) => client.sadd(key, ...members),
+		srem: (key, members) => client.srem(key, ...members),
+		smembers: (key) => client.smembers(key),
+		sismember: async (key, member) => (await client.sismember(key, member)) === 1,
+		zadd: (key, score, member) => client.zadd(key, score, member),
+		zrem: (key, members) => client.zrem(key, ...members),
+		zscore: async (key, member) => {
+			const score = await client.zscore(key, member)
+			return score === null ? null : Number(score)
+		},
+		zrange: (key, start, stop) => client.zrange(key, start, stop),
+	}
+}
+
+/**
+ * Adapts a `node-redis` (v4+) client to the adapter's command interface.
+ * @param client A connected `node-redis` client.
+ * @returns The normalized client to pass to `bindClient`.
+ */
+export function fromNodeRedis(client: NodeRedisLike): RedisCommandClient {
+	return {
+		get: (key) => client.get(key),
+		set: (key, value, expireMs) =>
+			expireMs === undefined ? client.set(key, value) : client.set(key, value, { PX: expireMs }),
+		del: (key) => client.del(key),
+		pexpire: async (key, milliseconds) => Boolean(await client.pExpire(key, milliseconds)),
+		exists: async (key) => (await client.exists(key)) > 0,
+		hget: async (key, field) => (await client.hGet(key, field)) ?? null,
+		hset: (key, field, value) => client.hSet(key, field, value),
+		hgetall: (key) => client.hGetAll(key),
+		hdel: (key, fields) => client.hDel(key, [...fields]),
+		sadd: (key, members) => client.sAdd(key, [...members]),
+		srem: (key, members) => client.sRem(key, [...members]),
+		smembers: (key) => client.sMembers(key),
+		sismember: async (key, member) => Boolean(await client.sIsMember(key, member)),
+		zadd: (key, score, member) => client.zAdd(key, { score, value: member }),
+		zrem: (key, members) => client.zRem(key, [...members]),
+		zscore: (key, member) => client.zScore(key, member),
+		zrange: (key, start, stop) => client.zRange(key, start, stop),
+	}
+}
+
+// --- Key Operations ---
+
+/** Options for writing a value */
+interface SetOptions {
+	/** Expiry in milliseconds (`SET ... PX`), defaults to the key's TTL policy */
+	px?: number
+}
+
+/** Operations available on every key regardless of its data type */
+interface BaseKeyOperations {
+	/** The built key */
+	readonly key: string
+	del: () => Promise<boolean>
+	exists: () => Promise<boolean>
+	/** Sets a timeout in seconds (fractions allowed, rounded up to whole milliseconds; must be positive) */
+	expire: (seconds: number) => Promise<boolean>
+}
+
+/** Operations for `string` and `json` keys, the whole value goes through the codec */
+interface StringKeyOperations<TValue> {
+	get: () => Promise<TValue | null>
+	set: (value: TValue, options?: SetOptions) => Promise<void>
+}
+
+/** Operations for `hash` keys, each field value goes through the codec */
+interface HashKeyOperations<TValue> {
+	hget: (field: string) => Promise<TValue | null>
+	hset: (field: string, value: TValue) => Promise<void>
+	hgetall: () => Promise<Record<string, TValue>>
+	hdel: (...fields: string[]) => Promise<number>
+}
+
+/** Operations for `set` keys, each member goes through the codec */
+interface SetKeyOperations<TValue> {
+	sadd: (...members: TValue[]) => Promise<number>
+	srem: (...members: TValue[]) => Promise<number>
+	smembers: () => Promise<TValue[]>
+	sismember: (member: TValue) => Promise<boolean>
+}
+
+/** Operations for `zset` keys, each member goes through the codec */
+interface SortedSetKeyOperations<TValue> {
+	zadd: (score: number, member: TValue) => Promise<void>
+	zrem: (...members: TValue[]) => Promise<number>
+	zscore: (member: TValue) => Promise<number | null>
+	zrange: (start: number, stop: number) => Promise<TValue[]>
+}
+
+/** The operations of a key, narrowed to what its Redis data type supports */
+type KeyOperations<TValue, TRedisType extends RedisDataType> = BaseKeyOperations &
+	(TRedisType extends "string" | "json"
+		? StringKeyOperations<TValue>
+		: TRedisType extends "hash"
+			? HashKeyOperations<TValue>
+			: TRedisType extends "set"
+				? SetKeyOperations<TValue>
+				: TRedisType extends "zset"
+					? SortedSetKeyOperations<TValue>
+					: {}) // `list`/`stream` keys only get the generic operations for now
+
+/** Plain (untyped) leaves don't know their data type, so every operation is offered on raw strings */
+type UntypedKeyOperations = BaseKeyOperations &
+	StringKeyOperations<string> &
+	HashKeyOperations<string> &
+	SetKeyOperations<string> &
+	SortedSetKeyOperations<string>
+
+/**
+ * Mirrors a `defineSchema` result: key builders return key operations instead of strings,
+ * parameterized levels return the bound sub-level.
+ */
+type BoundKeys<R> = {
+	// `defineChannel` builders name Pub/Sub channels, there is no key to operate on
+	readonly [K in keyof R as R[K] extends { readonly channel: true } ? never : K]: R[K] extends (
+		...args: infer A
+	) => infer Result
+		? Result extends RedisKey<infer TValue, infer TRedisType>
+			? (...args: A) => KeyOperations<TValue, TRedisType>
+			: Result extends string
+				? (...args: A) => UntypedKeyOperations
+				: (...args: A) => BoundKeys<Result>
+		: BoundKeys<R[K]>
+}
+
+/** Value metadata exposed by `defineKey` builders (absent on plain leaves), and the TTL every builder exposes */
+interface LeafMeta {
+	readonly channel?: true
+	readonly redisType?: RedisDataType
+	readonly codec?: ValueCodec<any>
+	readonly ttl?: (args?: unknown) => number | undefined
+}
+
+/**
+ * Creates the operations for one built key, only attaching what its data type supports.
+ * Writes apply the key's TTL (in milliseconds) so keys with a TTL policy never end up without expiry.
+ */
+function createKeyOperations(
+	key: string,
+	meta: LeafMeta,
+	ttlMs: number | undefined,
+	client: RedisCommandClient
+): Record<string, unknown> {
+	const { encode, decode }: ValueCodec<any> = meta.codec ?? codec.string
+	const redisType = meta.redisType
+	// Collection writes can't carry an expiry, so it is (re)applied right after them
+	const applyTtl = async <T>(written: T): Promise<T> => {
+		if (ttlMs !== undefined) {
+			await client.pexpire(key, ttlMs)
+		}
+		return written
+	}
+	const operations: Record<string, unknown> = {
+		key,
+		del: async () => (await client.del(key)) > 0,
+		exists: () => client.exists(key),
+		expire: async (seconds: number) => {
+			// `PEXPIRE key 0` deletes the key, so sub-millisecond timeouts are rounded up like `withTtl` does
+			if (typeof seconds !== "number" || !Number.isFinite(seconds) || seconds <= 0) {
+				throw new RedisKeyBuilderError(
+					`[RedisKeyBuilder] Invalid expiry for "${key}": expected a positive number of seconds, got ${seconds}.`
+				)
+			}
+			return client.pexpire(key, Math.ceil(seconds * 1000))
+		},
+	}
+
+	if (redisType === undefined || redisType === "string" || redisType === "json") {
+		Object.assign(operations, {
+			get: async () => {
+				const raw = await client.get(key)
+				return raw === null ? null : decode(raw)
+			},
+			set: async (value: unknown, options?: SetOptions) => {
+				await client.set(key, encode(value), options?.px ?? ttlMs)
+			},
+		})
+	}
+	if (redisType === undefined || redisType === "hash") {
+		Object.assign(operations, {
+			hget: async (field: string) => {
+				const raw = await client.hget(key, field)
+				return raw === null ? null : decode(raw)
+			},
+			hset: async (field: string, value: unknown) => {
+				await applyTtl(await client.hset(key, field, encode(value)))
+			},
+			hgetall: async () => {
+				const raw = await client.hgetall(key)
+				return Object.fromEntries(Object.entries(raw).map(([field, value]) => [field, decode(value)]))
+			},
+			hdel: (...fields: string[]) => client.hdel(key, fields),
+		})
+	}
+	if (redisType === undefined || redisType === "set") {
+		Object.assign(operations, {
+			sadd: async (...members: unknown[]) => applyTtl(await client.sadd(key, members.map(encode))),
+			srem: (...members: unknown[]) => client.srem(key, members.map(encode)),
+			smembers: async () => (await client.smembers(key)).map(decode),
+			sismember: (member: unknown) => client.sismember(key, encode(member)),
+		})
+	}
+	if (redisType === undefined || redisType === "zset") {
+		Object.assign(operations, {
+			zadd: async (score: number, member: unknown) => {
+				await applyTtl(await client.zadd(key, score, encode(member)))
+			},
+			zrem: (...members: unknown[]) => client.zrem(key, members.map(encode)),
+			zscore: (member: unknown) => client.zscore(key, encode(member)),
+			zrange: async (start: number, stop: number) => (await client.zrange(key, start, stop)).map(decode),
+		})
+	}
+
+	return operations
+}
+
+/**
+ * Binds a `defineSchema` result (or any level of it) to a Redis client.
+ * The returned object mirrors the schema; calling a key builder returns typed operations
+ * (`get`/`set`/`del`/`expire`/`exists` plus hash, set or sorted set commands depending on the key's data type).
+ * Writes apply the key's `withTtl` policy unless `set` is given an explicit `px`.
+ * @param keys The object returned by `defineSchema`, or a level obtained from it.
+ * @param client A client adapted with `fromIoredis`/`fromNodeRedis`, or any `RedisCommandClient`.
+ * @returns The bound mirror of `keys`.
+ */
+export function bindClient<R extends object>(keys: R, client: RedisCommandClient): BoundKeys<R> {
+	const bound: Record<string, unknown> = {}
+
+	// Only own enumerable keys: the schema runtime attached by `defineSchema` is skipped on purpose
+	for (const [name, value] of Object.entries(keys)) {
+		if (typeof value === "function" && (value as LeafMeta).channel) {
+			continue // Channel builders (`defineChannel`) are left out, channels aren't keys
+		}
+		if (typeof value === "function") {
+			// Leaf builders return the key string, parameterizing functions return the next level
+			bound[name] = (...args: unknown[]) => {
+				const result = value(...args)
+				if (typeof result !== "string") {
+					return bindClient(result, client)
+				}
+				const meta = value as LeafMeta
+				return createKeyOperations(result, meta, meta.ttl?.(args[0]), client)
+			}
+		} else if (typeof value === "object" && value !== null) {
+			bound[name] = bindClient(value, client)
+		}
+	}
+
+	return bound as BoundKeys<R>
+}
@@ -0,0 +1,43 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { createRequire } from "node:module"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { pathToFileURL } from "node:url"
+import { type Options, build } from "tsup"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import tsupConfig from "../tsup.config"
+
+const require = createRequire(import.meta.url)
+
+describe("Build Output", () => {
+	let outDir = ""
+	const load = (entry: string) => require(join(outDir, `${entry}.cjs`))
+
+	beforeAll(async () => {
+		outDir = await mkdtemp(join(tmpdir(), "redis-fluent-keys-"))
+		await build({ ...(tsupConfig as Options), config: false, outDir, dts: false, sourcemap: false, silent: true })
+	}, 60_000)
+
+	afterAll(async () => {
+		await rm(outDir, { recursive: true, force: true })
+	})
+
+	it("should share the main entry's error classes with the CJS adapters", async () => {
+		const { RedisKeyBuilderError, createKeyBuilder } = load("index")
+		const { bindClient, fromIoredis } = load("adapters")
+		const keys = createKeyBuilder()({ visits: ["visits"] })
+		const client = fromIoredis({ pexpire: async () => 1 } as never)
+
+		await expect(bindClient(keys, client).visits().expire(0)).rejects.toBeInstanceOf(RedisKeyBuilderError)
+	})
+
+	it("should recognize CJS schemas in the CJS and ESM catalogs", async () => {
+		const { createKeyBuilder, p } = load("index")
+		const keys = createKeyBuilder()({ user: ["user", p("userId")] })
+		const esmCatalog = await import(pathToFileURL(join(outDir, "catalog.js")).href)
+
+		for (const { createKeyCatalog } of [load("catalog"), esmCatalog]) {
+			expect(createKeyCatalog({ keys }).keys).toMatchObject([{ schema: "keys", template: "user:{userId}" }])
+		}
+	})
+})
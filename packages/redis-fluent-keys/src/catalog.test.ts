@@ -0,0 +1,141 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { jobs, keys } from "../tests/catalog-schemas"
+import { createKeyCatalog, renderCatalogJson, renderCatalogMarkdown, runCli } from "./catalog"
+
+const schemaModule = join(__dirname, "../tests/catalog-schemas.ts")
+
+/** Runs the CLI, collecting what it prints */
+async function run(argv: string[], cwd?: string) {
+	const output = { stdout: "", stderr: "" }
+	const exitCode = await runCli(argv, {
+		cwd,
+		output: {
+			stdout: (text) => {
+				output.stdout += text
+			},
+			stderr: (text) => {
+				output.stderr += text
+			},
+		},
+	})
+	return { exitCode, ...output }
+}
+
+describe("Key Catalog", () => {
+	describe("createKeyCatalog", () => {
+		it("should list every key with JSON-safe placeholders and value metadata", () => {
+			const catalog = createKeyCatalog({ keys, jobs })
+
+			expect(catalog.keys.map((entry) => `${entry.schema}:${entry.id}`)).toEqual([
+				"keys:user.profile",
+				"keys:user.sessions",
+				"keys:user.feed",
+				"keys:cart.items",
+				"jobs:queue",
+				"jobs:finished",
+			])
+			expect(catalog.keys[0]).toEqual({
+				schema: "keys",
+				id: "user.profile",
+				template: "app:user:{userId}:profile",
+				placeholders: [{ name: "userId", type: "string", origin: "parameterize", hashTag: false, optional: false }],
+				redisType: "json",
+				codec: "json",
+			})
+			expect(catalog.keys[1]?.placeholders[1]).toEqual({
+				name: "sessionId",
+				type: "string",
+				origin: "local",
+				hashTag: false,
+				optional: false,
+				constraints: { pattern: "/^s-/" },
+			})
+			expect(catalog.keys[1]?.ttl).toBe(90_000)
+			expect(catalog.keys[2]?.placeholders[1]).toMatchObject({ optional: true, default: 1, constraints: { min: 1 } })
+			expect(catalog.keys[3]).toMatchObject({ template: "app:cart:{{cartId}}:items", ttl: "computed" })
+			expect(catalog.keys[5]).toMatchObject({ template: "finished:{jobId}", channel: true, codec: "json" })
+			expect(JSON.parse(renderCatalogJson(catalog))).toEqual(catalog)
+		})
+
+		it("should reject values that aren't schemas", () => {
+			expect(() => createKeyCatalog({ keys, other: { queue: ["queue"] } })).toThrow(
+				/"other" is not a schema returned by defineSchema/
+			)
+		})
+	})
+
+	describe("renderCatalogMarkdown", () => {
+		it("should render one table per schema and one row per key", () => {
+			const markdown = renderCatalogMarkdown(createKeyCatalog({ keys, jobs }))
+
+			expect(markdown).toContain("## keys\n")
+			expect(markdown).toContain("## jobs\n")
+			expect(markdown).toContain(
+				"| `user.sessions` | `app:user:{userId}:session:{sessionId}` | `userId`: string (path parameter)<br>`sessionId`: string (pattern /^s-/) |  |  | 90s |"
+			)
+			expect(markdown).toContain(
+				"| `cart.items` | `app:cart:{{cartId}}:items` | `cartId`: string (path parameter, hash tag) |  |  | computed |"
+			)
+			expect(markdown).toContain("`priority`: enum (oneOf high, low)")
+			expect(markdown).toContain("| `finished` | `finished:{jobId}` | `jobId`: string | channel | json |  |")
+			expect(markdown.endsWith("|\n")).toBe(true)
+		})
+	})
+
+	describe("runCli", () => {
+		let directory: string
+
+		beforeAll(async () => {
+			directory = await mkdtemp(join(tmpdir(), "redis-fluent-keys-"))
+		})
+
+		afterAll(async () => {
+			await rm(directory, { recursive: true, force: true })
+		})
+
+		it("should print the catalog of every schema export", async () => {
+			const result = await run(["catalog", schemaModule])
+
+			expect(result.exitCode).toBe(0)
+			expect(result.stdout).toBe(renderCatalogMarkdown(createKeyCatalog({ keys, jobs })))
+		})
+
+		it("should write the selected exports in the requested format", async () => {
+			const result = await run(["catalog", schemaModule, "--export", "jobs", "--out", "keys.json"], directory)
+
+			expect(result).toEqual({ exitCode: 0, stdout: "", stderr: "" })
+			expect(JSON.parse(await readFile(join(directory, "keys.json"), "utf8"))).toEqual(createKeyCatalog({ jobs }))
+		})
+
+		it("should check whether the catalog file is up to date", async () => {
+			const out = join(directory, "KEYS.md")
+			expect((await run(["catalog", schemaModule, "--out", out, "--check"])).exitCode).toBe(1)
+
+			await run(["catalog", schemaModule, "--out", out])
+			expect((await run(["catalog", schemaModule, "--out", out, "--check"])).exitCode).toBe(0)
+
+			await writeFile(out, "stale")
+			const result = await run(["catalog", schemaModule, "--out", out, "--check"])
+			expect(result.exitCode).toBe(1)
+			expect(result.stderr).toMatch(/KEYS\.md is outdated/)
+			expect(await readFile(out, "utf8")).toBe("stale")
+		})
+
+		it("should report usage errors and broken modules", async () => {
+			expect((await run([])).exitCode).toBe(2)
+			expect((await run(["catalog"])).exitCode).toBe(2)
+			expect((await run(["catalog", schemaModule, "--format", "yaml"])).exitCode).toBe(2)
+			expect((await run(["catalog", schemaModule, "--check"])).exitCode).toBe(2)
+			expect((await run(["catalog", schemaModule, "--unknown"])).stderr).toMatch(/Unknown option/)
+			expect((await run(["--help"])).stdout).toMatch(/^Usage: redis-fluent-keys catalog/)
+
+			const notASchema = await run(["catalog", schemaModule, "--export", "notASchema"])
+			expect(notASchema.exitCode).toBe(1)
+			expect(notASchema.stderr).toMatch(/"notASchema" is not a schema/)
+			expect((await run(["catalog", join(directory, "missing.js")])).exitCode).toBe(1)
+		})
+	})
+})
@@ -0,0 +1,281 @@
+import { readFile, writeFile } from "node:fs/promises"
+import { resolve } from "node:path"
+import { pathToFileURL } from "node:url"
+import { parseArgs } from "node:util"
+import {
+	type KeyDescriptor,
+	type PlaceholderDescriptor,
+	RedisKeyBuilderError,
+	describeSchema,
+	isDefinedSchema,
+} from "./index"
+
+// --- Catalog ---
+
+/** A placeholder of a catalog entry, JSON-safe (regular expressions are rendered as `/source/flags`) */
+export interface CatalogPlaceholder {
+	readonly name: string
+	readonly type: PlaceholderDescriptor["type"]
+	readonly origin: PlaceholderDescriptor["origin"]
+	readonly hashTag: boolean
+	readonly optional: boolean
+	readonly default?: unknown
+	readonly constraints?: Readonly<Record<string, unknown>>
+}
+
+/** A key of the catalog: `describeSchema` output, made JSON-safe and tagged with the export it comes from */
+export interface CatalogEntry {
+	/** Name of the module export holding the schema */
+	readonly schema: string
+	/** Dotted path of the key builder in the schema object, e.g. `user.orders.byId` */
+	readonly id: string
+	readonly template: string
+	readonly placeholders: ReadonlyArray<CatalogPlaceholder>
+	/** Only set for `defineKey` leaves */
+	readonly redisType?: string
+	/** Only set for `defineChannel` leaves (Pub/Sub channel names, not keys) */
+	readonly channel?: true
+	/** Name of the value (or message) codec (`ValueCodec.name`, `"custom"` when unnamed); only set for typed leaves */
+	readonly codec?: string
+	/** Fixed TTL in milliseconds, or `"computed"` */
+	readonly ttl?: number | "computed"
+}
+
+/** Every key of one or more schemas, in schema order */
+export interface KeyCatalog {
+	readonly keys: ReadonlyArray<CatalogEntry>
+}
+
+/**
+ * Builds a catalog of every key of the given schemas.
+ * The output only depends on the schemas (no timestamps, stable order), so rendered catalogs can be diffed in CI.
+ * @param schemas The objects returned by `defineSchema`, by name (usually the module exports).
+ * @returns The catalog, ready for `renderCatalogJson`/`renderCatalogMarkdown`.
+ */
+export function createKeyCatalog(schemas: Readonly<Record<string, unknown>>): KeyCatalog {
+	const keys: CatalogEntry[] = []
+	for (const [schemaName, keysObject] of Object.entries(schemas)) {
+		if (!isDefinedSchema(keysObject)) {
+			throw new RedisKeyBuilderError(`[RedisKeyBuilder] "${schemaName}" is not a schema returned by defineSchema.`)
+		}
+		keys.push(...describeSchema(keysObject).map((descriptor) => toCatalogEntry(schemaName, descriptor)))
+	}
+	return { keys }
+}
+
+/** Converts a key descriptor into its JSON-safe catalog form */
+function toCatalogEntry(schema: string, descriptor: KeyDescriptor): CatalogEntry {
+	return {
+		schema,
+		id: descriptor.id,
+		template: descriptor.template,
+		placeholders: descriptor.placeholders.map((placeholder) => ({
+			name: placeholder.name,
+			type: placeholder.type,
+			origin: placeholder.origin,
+			hashTag: placeholder.hashTag,
+			optional: placeholder.optional,
+			...("default" in placeholder ? { default: toJsonValue(placeholder.default) } : {}),
+			...(placeholder.constraints
+				? {
+						constraints: Object.fromEntries(
+							Object.entries(placeholder.constraints).map(([name, value]) => [name, toJsonValue(value)])
+						),
+					}
+				: {}),
+		})),
+		...(descriptor.redisType ? { redisType: descriptor.redisType } : {}),
+		...(descriptor.channel ? { channel: true as const } : {}),
+		...(descriptor.codec ? { codec: descriptor.codec.name ?? "custom" } : {}),
+		...(descriptor.ttl !== undefined ? { ttl: descriptor.ttl } : {}),
+	}
+}
+
+/** Renders values JSON can't represent faithfully (regular expressions, dates) as strings */
+function toJsonValue(value: unknown): unknown {
+	if (value instanceof RegExp) {
+		return String(value)
+	}
+	if (value instanceof Date) {
+		return value.toISOString()
+	}
+	return value
+}
+
+// --- Rendering ---
+
+/** Renders the catalog as pretty-printed JSON (with a trailing newline) */
+export function renderCatalogJson(catalog: KeyCatalog): string {
+	return `${JSON.stringify(catalog, null, 2)}\n`
+}
+
+/** Renders the catalog as Markdown: one table per schema, one row per key */
+export function renderCatalogMarkdown(catalog: KeyCatalog): string {
+	const lines = ["# Redis Key Catalog", "", "<!-- Generated by `redis-fluent-keys catalog`, do not edit by hand -->"]
+	const schemas = [...new Set(catalog.keys.map((entry) => entry.schema))]
+	for (const schema of schemas) {
+		lines.push(
+			"",
+			`## ${schema}`,
+			"",
+			"| Key | Template | Placeholders | Redis type | Value | TTL |",
+			"| --- | --- | --- | --- | --- | --- |"
+		)
+		for (const entry of catalog.keys.filter((candidate) => candidate.schema === schema)) {
+			const cells = [
+				code(entry.id),
+				code(entry.template),
+				entry.placeholders.map(describePlaceholder).join("<br>"),
+				entry.channel ? "channel" : (entry.redisType ?? ""),
+				entry.codec ?? "",
+				entry.ttl === undefined ? "" : entry.ttl === "computed" ? "computed" : formatDuration(entry.ttl),
+			]
+			lines.push(`| ${cells.map(escapeCell).join(" | ")} |`)
+		}
+	}
+	return `${lines.join("\n")}\n`
+}
+
+/** Renders a placeholder cell, e.g. "`page`: number (optional, default 1, min 1)" */
+function describePlaceholder(placeholder: CatalogPlaceholder): string {
+	const notes = [
+		placeholder.origin === "parameterize" ? "path parameter" : undefined,
+		placeholder.hashTag ? "hash tag" : undefined,
+		placeholder.optional ? "optional" : undefined,
+		"default" in placeholder ? `default ${JSON.stringify(placeholder.default)}` : undefined,
+		...Object.entries(placeholder.constraints ?? {}).map(([name, value]) =>
+			Array.isArray(value) ? `${name} ${value.join(", ")}` : value === true ? name : `${name} ${value}`
+		),
+	].filter((note) => note !== undefined)
+	return `${code(placeholder.name)}: ${placeholder.type}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`
+}
+
+/** Formats milliseconds with the largest unit that divides them, e.g. `90s`, `2h` */
+function formatDuration(ms: number): string {
+	const units: Array<[string, number]> = [
+		["d", 86_400_000],
+		["h", 3_600_000],
+		["m", 60_000],
+		["s", 1000],
+	]
+	const [unit, size] = units.find(([, unitSize]) => ms % unitSize === 0) ?? ["ms", 1]
+	return `${ms / size}${unit}`
+}
+
+function code(text: string): string {
+	return `\`${text}\``
+}
+
+/** Keeps cell content from breaking the table */
+function escapeCell(text: string): string {
+	return text.replace(/\|/g, "\\|").replace(/\n/g, " ")
+}
+
+// --- Command Line ---
+
+/** Where the CLI writes its messages (the real process streams, or a buffer in tests) */
+export interface CatalogCliOutput {
+	stdout: (text: string) => void
+	stderr: (text: string) => void
+}
+
+const usage = `Usage: redis-fluent-keys catalog <module> [options]
+
+Loads a JavaScript module exporting schemas (the objects returned by defineSchema)
+and prints a catalog of every key.
+
+Options:
+  --export <name>    Only catalog this export (repeatable, default: every schema export)
+  --format <format>  "markdown" or "json" (default: from the --out extension, else markdown)
+  --out <file>       Write the catalog to a file instead of stdout
+  --check            Don't write, exit with 1 when --out is missing or outdated (for CI)
+  --help             Show this message
+`
+
+/**
+ * Runs the `redis-fluent-keys` command line (`bin` of the package), without touching the process.
+ * @param argv The arguments after the binary name, e.g. `["catalog", "./dist/keys.js", "--out", "KEYS.md"]`.
+ * @param options The directory paths are resolved against and where messages go.
+ * @returns The exit code: 0 on success, 1 for an outdated catalog or a failing module, 2 for usage errors.
+ */
+export async function runCli(
+	argv: ReadonlyArray<string>,
+	options: { cwd?: string; output?: CatalogCliOutput } = {}
+): Promise<number> {
+	const cwd = options.cwd ?? process.cwd()
+	const output = options.output ?? {
+		stdout: (text) => process.stdout.write(text),
+		stderr: (text) => process.stderr.write(text),
+	}
+
+	let parsed: ReturnType<typeof parseCatalogArgs>
+	try {
+		parsed = parseCatalogArgs(argv)
+	} catch (error) {
+		output.stderr(`${(error as Error).message}\n\n${usage}`)
+		return 2
+	}
+	if (parsed.values.help) {
+		output.stdout(usage)
+		return 0
+	}
+	const [command, modulePath, ...rest] = parsed.positionals
+	const format = parsed.values.format ?? (parsed.values.out?.endsWith(".json") ? "json" : "markdown")
+	if (command !== "catalog" || modulePath === undefined || rest.length > 0) {
+		output.stderr(usage)
+		return 2
+	}
+	if (format !== "markdown" && format !== "json") {
+		output.stderr(`Unknown format "${format}", expected "markdown" or "json".\n`)
+		return 2
+	}
+	if (parsed.values.check && parsed.values.out === undefined) {
+		output.stderr("--check compares against the catalog file, pass it with --out.\n")
+		return 2
+	}
+
+	let rendered: string
+	try {
+		const exports: Record<string, unknown> = await import(pathToFileURL(resolve(cwd, modulePath)).href)
+		const names = parsed.values.export ?? Object.keys(exports).filter((name) => isDefinedSchema(exports[name]))
+		if (names.length === 0) {
+			output.stderr(`"${modulePath}" exports no schema returned by defineSchema.\n`)
+			return 1
+		}
+		const catalog = createKeyCatalog(Object.fromEntries(names.map((name) => [name, exports[name]])))
+		rendered = format === "json" ? renderCatalogJson(catalog) : renderCatalogMarkdown(catalog)
+	} catch (error) {
+		output.stderr(`${(error as Error).message}\n`)
+		return 1
+	}
+
+	if (parsed.values.out === undefined) {
+		output.stdout(rendered)
+		return 0
+	}
+	const outPath = resolve(cwd, parsed.values.out)
+	if (parsed.values.check) {
+		const existing = await readFile(outPath, "utf8").catch(() => undefined)
+		if (existing !== rendered) {
+			output.stderr(`${parsed.values.out} is outdated, run the command without --check to update it.\n`)
+			return 1
+		}
+		return 0
+	}
+	await writeFile(outPath, rendered)
+	return 0
+}
+
+function parseCatalogArgs(argv: ReadonlyArray<string>) {
+	return parseArgs({
+		args: [...argv],
+		allowPositionals: true,
+		options: {
+			export: { type: "string", multiple: true },
+			format: { type: "string" },
+			out: { type: "string" },
+			check: { type: "boolean" },
+			help: { type: "boolean" },
+		},
+	})
+}
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+import { runCli } from "./catalog"
+
+// Entry point of the `redis-fluent-keys` binary, everything else lives in `runCli`
+runCli(process.argv.slice(2)).then((exitCode) => {
+	process.exitCode = exitCode
+})
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest"
+import { getHashTag, keySlot } from "./cluster"
+
+describe("Redis Cluster Helpers", () => {
+	describe("getHashTag", () => {
+		it("should extract the content of the first hash tag", () => {
+			expect(getHashTag("user:{u-1}:profile")).toBe("u-1")
+			expect(getHashTag("{a}{b}")).toBe("a")
+			expect(getHashTag("foo{bar}{zap}")).toBe("bar")
+			expect(getHashTag("foo{{bar}}")).toBe("{bar")
+		})
+
+		it("should return undefined when the whole key is hashed", () => {
+			expect(getHashTag("user:u-1:profile")).toBeUndefined()
+			expect(getHashTag("foo{}{bar}")).toBeUndefined()
+			expect(getHashTag("foo{bar")).toBeUndefined()
+		})
+	})
+
+	describe("keySlot", () => {
+		// Reference values from `CLUSTER KEYSLOT`
+		it("should match the slots computed by Redis", () => {
+			expect(keySlot("123456789")).toBe(12739)
+			expect(keySlot("foo")).toBe(12182)
+			expect(keySlot("bar")).toBe(5061)
+			expect(keySlot("hello")).toBe(866)
+		})
+
+		it("should hash only the hash tag when present", () => {
+			expect(keySlot("{user1000}.following")).toBe(keySlot("{user1000}.followers"))
+			expect(keySlot("{user1000}.following")).toBe(keySlot("user1000"))
+			expect(keySlot("foo{}{bar}")).not.toBe(keySlot("bar"))
+		})
+	})
+})
@@ -0,0 +1,53 @@
+// --- Redis Cluster Helpers ---
+
+/** Total number of hash slots in a Redis Cluster */
+const HASH_SLOTS = 16384
+
+/** Lookup table for CRC16/XMODEM (polynomial 0x1021), the variant Redis Cluster uses for key slots */
+const crc16Table = Array.from({ length: 256 }, (_, byte) => {
+	let crc = byte << 8
+	for (let bit = 0; bit < 8; bit++) {
+		crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1
+	}
+	return crc & 0xffff
+})
+
+const utf8 = new TextEncoder()
+
+/** Computes the CRC16/XMODEM checksum of a string's UTF-8 bytes */
+function crc16(value: string): number {
+	let crc = 0
+	for (const byte of utf8.encode(value)) {
+		crc = ((crc << 8) ^ crc16Table[((crc >> 8) ^ byte) & 0xff]) & 0xffff
+	}
+	return crc
+}
+
+/**
+ * Extracts the hash tag Redis Cluster would use for a key.
+ * Follows the server's rule: the text between the first `{` and the first `}` after it, if non-empty.
+ * @param key A concrete Redis key.
+ * @returns The hash tag content (without braces), or `undefined` if the whole key is hashed.
+ */
+export function getHashTag(key: string): string | undefined {
+	const open = key.indexOf("{")
+	if (open === -1) {
+		return undefined
+	}
+	const close = key.indexOf("}", open + 1)
+	// `{}` (empty tag) or an unclosed brace means the whole key is hashed
+	if (close === -1 || close === open + 1) {
+		return undefined
+	}
+	return key.slice(open + 1, close)
+}
+
+/**
+ * Computes the Redis Cluster hash slot (0-16383) of a key, honoring hash tags.
+ * Handy to assert in tests that related keys are co-located.
+ * @param key A concrete Redis key, e.g. built by a key builder.
+ * @returns The slot number, identical to `CLUSTER KEYSLOT key`.
+ */
+export function keySlot(key: string): number {
+	return crc16(getHashTag(key) ?? key) % HASH_SLOTS
+}
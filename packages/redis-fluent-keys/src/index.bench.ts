@@ -0,0 +1,138 @@
+import { bench, describe } from "vitest"
+import { createReferenceKeyBuilder } from "../tests/reference-builder"
+import { createKeyBuilder, defineKey, hashTag, p, parameterize, withTtl } from "./index"
+
+// A schema shaped like a typical service: a few top-level keys and a wide parameterized level
+const schema = {
+	config: ["config"],
+	productStock: ["product", p.number("productId"), "stock"],
+	user: parameterize(p("userId"), {
+		profile: ["profile"],
+		settings: defineKey(["settings"], { type: "hash" }),
+		sessions: withTtl(["session", p("sessionId")], { seconds: 60 }),
+		orders: {
+			byId: ["order", p.number("orderId")],
+			recent: ["orders", "recent"],
+		},
+		feed: { page: ["feed", p.number("page")] },
+	}),
+	tenant: hashTag(
+		parameterize([p("tenantId"), p("region")], {
+			config: ["config"],
+			member: parameterize(p("memberId"), { roles: ["roles"] }),
+		})
+	),
+} as const
+
+const keys = createKeyBuilder({ prefix: "app" })(schema)
+// Builds a new view of each `parameterize` level on every call, the work the view cache saves
+const uncachedKeys = createKeyBuilder({ prefix: "app", viewCacheSize: 0 })(schema)
+// The builder before schemas were compiled, walking the schema again on every level call
+const referenceKeys = createReferenceKeyBuilder({ prefix: "app" })(schema)
+
+const userIds = Array.from({ length: 1000 }, (_, index) => `u-${index}`)
+let cursor = 0
+const nextUserId = () => userIds[cursor++ % userIds.length] as string
+
+describe("leaf keys", () => {
+	bench("static leaf", () => {
+		keys.config()
+	})
+
+	bench("leaf with a placeholder", () => {
+		keys.productStock({ productId: 42 })
+	})
+
+	bench("reference: leaf with a placeholder, before compilation", () => {
+		referenceKeys.productStock({ productId: 42 })
+	})
+
+	bench("baseline: template literal", () => {
+		;`app:product:${42}:stock`
+	})
+})
+
+const productArgs = Array.from({ length: 1000 }, (_, index) => ({ productId: index }))
+
+// `.many` renders the prefixes once and concatenates the compiled steps of each key: expect it to stay well ahead
+// of `.map` (about 3x), equal rates mean it fell back to the single-call builder
+describe("batches of 1000 keys", () => {
+	bench(".map over the builder", () => {
+		productArgs.map((args) => keys.productStock(args))
+	})
+
+	bench(".many", () => {
+		keys.productStock.many(productArgs)
+	})
+})
+
+// Cached views should stay several times ahead of the reference, fresh views (without the cache) about even with it
+describe("parameterized keys", () => {
+	bench("same path parameter", () => {
+		keys.user({ userId: "u-1" }).orders.byId({ orderId: 7 })
+	})
+
+	bench("1000 rotating path parameters", () => {
+		keys.user({ userId: nextUserId() }).orders.byId({ orderId: 7 })
+	})
+
+	bench("nested parameterized levels with a hash tag", () => {
+		keys.tenant({ tenantId: "acme", region: "eu" }).member({ memberId: nextUserId() }).roles()
+	})
+
+	bench("baseline: same path parameter, without the view cache", () => {
+		uncachedKeys.user({ userId: "u-1" }).orders.byId({ orderId: 7 })
+	})
+
+	bench("baseline: 1000 rotating path parameters, without the view cache", () => {
+		uncachedKeys.user({ userId: nextUserId() }).orders.byId({ orderId: 7 })
+	})
+
+	bench("baseline: nested parameterized levels, without the view cache", () => {
+		uncachedKeys.tenant({ tenantId: "acme", region: "eu" }).member({ memberId: nextUserId() }).roles()
+	})
+
+	bench("reference: same path parameter, before compilation", () => {
+		referenceKeys.user({ userId: "u-1" }).orders.byId({ orderId: 7 })
+	})
+
+	bench("reference: 1000 rotating path parameters, before compilation", () => {
+		referenceKeys.user({ userId: nextUserId() }).orders.byId({ orderId: 7 })
+	})
+
+	bench("reference: nested parameterized levels, before compilation", () => {
+		referenceKeys.tenant({ tenantId: "acme", region: "eu" }).member({ memberId: nextUserId() }).roles()
+	})
+
+	bench("baseline: template literal", () => {
+		;`app:user:${nextUserId()}:orders:order:${7}`
+	})
+})
+
+describe("patterns", () => {
+	bench("pattern below a parameterized level", () => {
+		keys.user.pattern().orders.byId.pattern()
+	})
+})
+
+// A wide shared schema of which a short-lived handler only touches a couple of keys
+const wideSchema = Object.fromEntries(
+	Array.from({ length: 200 }, (_, index) => [
+		`feature${index}`,
+		{ flag: ["flag"], counter: ["counter", p("bucket")], user: parameterize(p("userId"), { state: ["state"] }) },
+	])
+)
+
+describe("defining schemas", () => {
+	bench("eager, touching two keys", () => {
+		const wide = createKeyBuilder()(wideSchema)
+		wide.feature1?.flag()
+		wide.feature2?.counter({ bucket: "a" })
+	})
+
+	bench("lazy, touching two keys", () => {
+		const wide = createKeyBuilder({ lazy: true })(wideSchema)
+		wide.feature1?.flag()
+		wide.feature2?.counter({ bucket: "a" })
+	})
+})
@@ -1,5 +1,40 @@
-import { describe, expect, it } from "vitest"
-import { createKeyBuilder, p, parameterize } from "./index"
+import { createHash } from "node:crypto"
+import { describe, expect, expectTypeOf, it, vi } from "vitest"
+import { createMemoryPubSub } from "../tests/memory-pubsub"
+import {
+	type BatchResult,
+	InvalidArgumentError,
+	InvalidSchemaError,
+	KeyCollisionError,
+	KeyLengthError,
+	KeyParseError,
+	MissingArgumentError,
+	type RedisChannel,
+	type RedisKey,
+	RedisKeyBuilderError,
+	UnsafeArgumentError,
+	codec,
+	createKeyBuilder,
+	createKeyMigration,
+	defineChannel,
+	defineKey,
+	describeSchema,
+	extend,
+	findKeyCollisions,
+	findKeysWithoutTtl,
+	hashTag,
+	keySlot,
+	matchKey,
+	merge,
+	mount,
+	optional,
+	p,
+	parameterize,
+	parseChannel,
+	parseKey,
+	withPrefix,
+	withTtl,
+} from "./index"
 
 // --- Test setup ---
 const defaultBuilder = createKeyBuilder()
@@ -151,14 +186,16 @@ describe("Redis Key Builder", () => {
 			// @ts-expect-error userId should be string, not number
 			keys.userById({ userId: 123 })
 			// @ts-expect-error productId should be number, not string
-			keys.productStock({ productId: "p-456" })
+			expect(() => keys.productStock({ productId: "p-456" })).toThrow(InvalidArgumentError)
 			// @ts-expect-error enabled should be boolean, not string
-			keys.featureFlag({ flagName: "test", enabled: "true" })
-			keys.orderCountForDate({
-				date: "2023-01-01",
-				// @ts-expect-error counterId should be number
-				counterId: "one",
-			})
+			expect(() => keys.featureFlag({ flagName: "test", enabled: "true" })).toThrow(InvalidArgumentError)
+			expect(() =>
+				keys.orderCountForDate({
+					date: "2023-01-01",
+					// @ts-expect-error counterId should be number
+					counterId: "one",
+				})
+			).toThrow(InvalidArgumentError)
 		})
 
 		it("should error if unexpected arguments are provided to no-arg functions", () => {
@@ -186,11 +223,13 @@ describe("Redis Key Builder", () => {
 				})
 			).toThrow(/Missing value for path parameter "resourceId"/)
 
-			keys.param.tenantResource({
-				tenantId: "tnt-1",
-				// @ts-expect-error resourceId should be number for param.tenantResource
-				resourceId: "r-1",
-			})
+			expect(() =>
+				keys.param.tenantResource({
+					tenantId: "tnt-1",
+					// @ts-expect-error resourceId should be number for param.tenantResource
+					resourceId: "r-1",
+				})
+			).toThrow(InvalidArgumentError)
 		})
 
 		it("should error accessing nested builders before providing parameters", () => {
@@ -208,7 +247,7 @@ describe("Redis Key Builder", () => {
 			// @ts-expect-error orderId is required
 			expect(() => userAccess.orders.byId({})).toThrow(/Missing value for argument placeholder "orderId"/)
 			// @ts-expect-error orderId must be a number
-			userAccess.orders.byId({ orderId: "o-1" })
+			expect(() => userAccess.orders.byId({ orderId: "o-1" })).toThrow(InvalidArgumentError)
 
 			const tenantAccess = keys.param.tenantResource({
 				tenantId: "tnt-1",
@@ -324,4 +363,1729 @@ describe("Redis Key Builder", () => {
 			// The current logic skips adding the key, so this should pass.
 		})
 	})
+
+	describe("Reverse Parsing", () => {
+		const keys = defaultBuilder(combinedSchema)
+		const customKeys = customSepBuilder(combinedSchema)
+
+		it("should parse keys back into their schema path and typed arguments", () => {
+			expect(parseKey(keys, "param:user:usr-1:orders:42")).toEqual({
+				id: "param.user.orders.byId",
+				path: ["param", "user", "orders", "byId"],
+				args: { userId: "usr-1", orderId: 42 },
+			})
+			expect(parseKey(keys, "config")).toEqual({ id: "appConfig", path: ["appConfig"], args: {} })
+			expect(parseKey(keys, "nested:users:profile:settings")?.id).toBe("nested.users.profile.settings")
+			expect(parseKey(keys, "param:tenantResource:tnt-1:7:logs:warn")?.args).toEqual({
+				tenantId: "tnt-1",
+				resourceId: 7,
+				logLevel: "warn",
+			})
+		})
+
+		it("should decode number and boolean placeholders", () => {
+			expect(parseKey(keys, "feature:darkMode:false")?.args).toEqual({ flagName: "darkMode", enabled: false })
+			expect(parseKey(keys, "product:-1.5:stock")?.args).toEqual({ productId: -1.5 })
+			expect(parseKey(keys, "product:abc:stock")).toBeNull()
+			expect(parseKey(keys, "feature:darkMode:yes")).toBeNull()
+		})
+
+		it("should round-trip keys produced by the builders", () => {
+			const built = [
+				keys.userById({ userId: "usr-123" }),
+				keys.orderCountForDate({ date: "2023-10-27", counterId: 5 }),
+				keys.param.session({ sessionId: "sess-1" }).data(),
+				keys.param.tenantResource({ tenantId: "t", resourceId: 1 }).config(),
+			]
+			for (const key of built) {
+				const parsed = parseKey(keys, key)
+				expect(parsed).not.toBeNull()
+			}
+			expect(parseKey(customKeys, customKeys.param.user({ userId: "u-sep" }).orders.byId({ orderId: 7 }))).toEqual({
+				id: "param.user.orders.byId",
+				path: ["param", "user", "orders", "byId"],
+				args: { userId: "u-sep", orderId: 7 },
+			})
+		})
+
+		it("should return null for keys that don't belong to the schema", () => {
+			expect(parseKey(keys, "unknown:key")).toBeNull()
+			expect(parseKey(keys, "config:extra")).toBeNull()
+			expect(matchKey(keys, "")).toEqual([])
+		})
+
+		it("should report ambiguity when multiple definitions match the same key", () => {
+			const ambiguousKeys = defaultBuilder({
+				byId: ["x", p("id")],
+				profile: ["x", "profile"],
+			})
+			expect(parseKey(ambiguousKeys, "x:42")?.id).toBe("byId")
+			expect(matchKey(ambiguousKeys, "x:profile").map((m) => m.id)).toEqual(["byId", "profile"])
+			expect(() => parseKey(ambiguousKeys, "x:profile")).toThrow(/Cannot parse key "x:profile": the key is ambiguous/)
+		})
+
+		it("should throw when not given the root object returned by defineSchema", () => {
+			const userAccess = keys.param.user({ userId: "u-1" })
+			expect(() => parseKey(userAccess as any, "param:user:u-1:profile")).toThrow(
+				/Expected the object returned by defineSchema/
+			)
+		})
+
+		it("should narrow the parsed arguments by schema path", () => {
+			const parsed = parseKey(keys, "param:user:usr-1:orders:42")
+			if (parsed?.id === "param.user.orders.byId") {
+				const orderId: number = parsed.args.orderId
+				const userId: string = parsed.args.userId
+				expect([userId, orderId]).toEqual(["usr-1", 42])
+			}
+			if (parsed?.id === "param.user.profile") {
+				// @ts-expect-error profile has no orderId placeholder
+				parsed.args.orderId
+			}
+			switch (parsed?.id) {
+				case "featureFlag": {
+					const enabled: boolean = parsed.args.enabled
+					expect(enabled).toBeTypeOf("boolean")
+					break
+				}
+				// @ts-expect-error "param.user.unknown" is not a leaf of the schema
+				case "param.user.unknown":
+					break
+			}
+		})
+	})
+
+	describe("Glob Patterns", () => {
+		const keys = defaultBuilder(combinedSchema)
+		const customKeys = customSepBuilder(combinedSchema)
+
+		it("should replace omitted leaf placeholders with wildcards", () => {
+			expect(keys.userById.pattern()).toBe("user:*")
+			expect(keys.userById.pattern({ userId: "u-1" })).toBe("user:u-1")
+			expect(keys.orderCountForDate.pattern({ counterId: 5 })).toBe("orders:*:count:5")
+			expect(keys.featureFlag.pattern({ enabled: false })).toBe("feature:*:false")
+			expect(keys.appConfig.pattern()).toBe("config")
+		})
+
+		it("should replace omitted path parameters with wildcards", () => {
+			expect(keys.param.user.pattern({}).orders.byId.pattern({})).toBe("param:user:*:orders:*")
+			expect(keys.param.user.pattern().profile()).toBe("param:user:*:profile")
+			expect(keys.param.user.pattern({}).orders.byId({ orderId: 5 })).toBe("param:user:*:orders:5")
+			expect(keys.param.tenantResource.pattern({ resourceId: 3 }).logs.pattern()).toBe(
+				"param:tenantResource:*:3:logs:*"
+			)
+			expect(keys.param.user({ userId: "u-1" }).orders.byId.pattern()).toBe("param:user:u-1:orders:*")
+		})
+
+		it("should glob-escape static text and provided values", () => {
+			const globKeys = defaultBuilder({
+				weird: ["a*b", p("id")],
+				scoped: parameterize(p("scope"), { items: ["items?", p("item")] }),
+			})
+			expect(globKeys.weird.pattern()).toBe("a\\*b:*")
+			expect(globKeys.weird.pattern({ id: "[x]" })).toBe("a\\*b:\\[x\\]")
+			expect(globKeys.scoped.pattern({ scope: "s*" }).items.pattern()).toBe("scoped:s\\*:items\\?:*")
+			// Normal mode is untouched
+			expect(globKeys.weird({ id: "[x]" })).toBe("a*b:[x]")
+		})
+
+		it("should use the configured separator", () => {
+			expect(customKeys.param.user.pattern().orders.byId.pattern()).toBe("param->user->*->orders->*")
+		})
+
+		it("should keep normal mode strict while making pattern arguments optional", () => {
+			keys.param.user.pattern({ userId: "u-1" })
+			// @ts-expect-error userId must still be a string in pattern mode
+			keys.param.user.pattern({ userId: 1 })
+			// @ts-expect-error orderId must still be a number in pattern mode
+			expect(() => keys.param.user.pattern().orders.byId.pattern({ orderId: "1" })).toThrow(InvalidArgumentError)
+			// @ts-expect-error normal mode still requires orderId
+			expect(() => keys.param.user.pattern().orders.byId({})).toThrow(
+				/Missing value for argument placeholder "orderId"/
+			)
+		})
+	})
+
+	describe("Value Escaping", () => {
+		it("should insert values as-is by default", () => {
+			const keys = defaultBuilder(combinedSchema)
+			expect(keys.userById({ userId: "a:b" })).toBe("user:a:b")
+		})
+
+		it("should reject values containing the separator", () => {
+			const keys = createKeyBuilder({ escape: "reject" })(combinedSchema)
+			expect(keys.userById({ userId: "a-b" })).toBe("user:a-b")
+			expect(() => keys.userById({ userId: "a:b" })).toThrow(UnsafeArgumentError)
+			expect(() => keys.userById({ userId: "a:b" })).toThrow(/placeholder "userId" in "user:userId"/)
+			expect(() => keys.param.user({ userId: "x:orders" })).toThrow(/placeholder "userId" in "param:user"/)
+
+			try {
+				keys.param.tenantResource({ tenantId: "evil:tenant", resourceId: 1 })
+				expect.unreachable()
+			} catch (error) {
+				expect(error).toBeInstanceOf(UnsafeArgumentError)
+				expect(error).toMatchObject({ placeholder: "tenantId", path: "param:tenantResource", value: "evil:tenant" })
+			}
+		})
+
+		it("should percent-encode separator characters and round-trip them through parseKey", () => {
+			const keys = createKeyBuilder({ escape: "encode" })(combinedSchema)
+			const key = keys.param.user({ userId: "a:b%c" }).orders.byId({ orderId: 1 })
+			expect(key).toBe("param:user:a%3Ab%25c:orders:1")
+			expect(parseKey(keys, key)?.args).toEqual({ userId: "a:b%c", orderId: 1 })
+			expect(keys.userById({ userId: "plain" })).toBe("user:plain")
+			expect(keys.userById.pattern({ userId: "a:*" })).toBe("user:a%3A\\*")
+
+			const arrowKeys = createKeyBuilder({ separator: "->", escape: "encode" })(combinedSchema)
+			expect(arrowKeys.userById({ userId: "x->y" })).toBe("user->x%2D%3Ey")
+			expect(parseKey(arrowKeys, "user->x%2D%3Ey")?.args).toEqual({ userId: "x->y" })
+			// Malformed sequences in foreign keys simply don't match
+			expect(parseKey(keys, "user:%E0%A4%A")).toBeNull()
+		})
+
+		it("should support custom encoders", () => {
+			const keys = createKeyBuilder({
+				escape: {
+					encode: (value) => Buffer.from(value).toString("base64url"),
+					decode: (encoded) => Buffer.from(encoded, "base64url").toString(),
+				},
+			})(combinedSchema)
+			const key = keys.userById({ userId: "a:b" })
+			expect(key).toBe("user:YTpi")
+			expect(parseKey(keys, key)?.args).toEqual({ userId: "a:b" })
+
+			const unsafeKeys = createKeyBuilder({ escape: { encode: (value) => value, decode: (value) => value } })(
+				combinedSchema
+			)
+			expect(() => unsafeKeys.userById({ userId: "a:b" })).toThrow(UnsafeArgumentError)
+		})
+	})
+
+	describe("Cluster Hash Tags", () => {
+		const clusterSchema = {
+			user: parameterize(hashTag(p("userId")), {
+				profile: ["profile"],
+				orders: { byId: [p.number("orderId")] },
+			}),
+			tenant: hashTag(
+				parameterize([p("tenantId"), p.number("resourceId")], {
+					config: ["config"],
+				})
+			),
+			inventory: ["inventory", hashTag(p("warehouse")), p("sku")],
+		}
+		const keys = defaultBuilder(clusterSchema)
+
+		it("should wrap hash-tagged placeholders in braces", () => {
+			expect(keys.user({ userId: "u-1" }).profile()).toBe("user:{u-1}:profile")
+			expect(keys.user({ userId: "u-1" }).orders.byId({ orderId: 5 })).toBe("user:{u-1}:orders:5")
+			expect(keys.inventory({ warehouse: "prg", sku: "a-1" })).toBe("inventory:{prg}:a-1")
+		})
+
+		it("should wrap all path parameters of a hash-tagged level in a single tag", () => {
+			expect(keys.tenant({ tenantId: "acme", resourceId: 3 }).config()).toBe("tenant:{acme:3}:config")
+		})
+
+		it("should co-locate every key sharing the hash tag", () => {
+			const userAccess = keys.user({ userId: "u-42" })
+			const slot = keySlot(userAccess.profile())
+			expect(keySlot(userAccess.orders.byId({ orderId: 1 }))).toBe(slot)
+			expect(keySlot(userAccess.orders.byId({ orderId: 2 }))).toBe(slot)
+			expect(keySlot(keys.inventory({ warehouse: "u-42", sku: "x" }))).toBe(slot)
+		})
+
+		it("should keep hash tags in patterns and parsing", () => {
+			expect(keys.user.pattern().orders.byId.pattern()).toBe("user:{*}:orders:*")
+			expect(keys.tenant.pattern({ tenantId: "acme" }).config()).toBe("tenant:{acme:*}:config")
+			expect(keys.inventory.pattern({ sku: "a" })).toBe("inventory:{*}:a")
+			expect(parseKey(keys, "user:{u-1}:orders:5")?.args).toEqual({ userId: "u-1", orderId: 5 })
+			expect(parseKey(keys, "tenant:{acme:3}:config")?.args).toEqual({ tenantId: "acme", resourceId: 3 })
+			expect(parseKey(keys, "user:u-1:orders:5")).toBeNull()
+		})
+
+		it("should throw when a value would move the effective hash tag", () => {
+			expect(() => keys.inventory({ warehouse: "prg", sku: "a}" })).not.toThrow()
+			expect(() => keys.inventory({ warehouse: "a}b", sku: "x" })).toThrow(/would not be hashed on its hash tag/)
+			expect(() => keys.user({ userId: "" }).profile()).toThrow(/would not be hashed on its hash tag/)
+		})
+
+		it("should reject keys with more than one hash tag", () => {
+			expect(() =>
+				// @ts-expect-error two hash tags in the same key
+				defaultBuilder({
+					twice: ["x", hashTag(p("a")), hashTag(p("b"))],
+				})
+			).toThrow(/Invalid schema at "twice": the key contains more than one hash tag/)
+
+			expect(() =>
+				// @ts-expect-error the level already provides a hash tag
+				defaultBuilder({
+					user: parameterize(hashTag(p("userId")), {
+						nested: { tagged: [hashTag(p("other"))] },
+					}),
+				})
+			).toThrow(/Invalid schema at "user.nested.tagged": the key contains more than one hash tag/)
+
+			expect(() =>
+				// @ts-expect-error tagged level with a tagged placeholder
+				defaultBuilder({
+					tenant: hashTag(parameterize([hashTag(p("tenantId"))], { config: ["config"] })),
+				})
+			).toThrow(/Invalid schema at "tenant.config": the key contains more than one hash tag/)
+
+			// @ts-expect-error only placeholders and parameterize levels can be hash tags
+			expect(() => hashTag(["static"])).toThrow(/hashTag requires a placeholder or a parameterize level/)
+		})
+	})
+
+	describe("Typed Values", () => {
+		type Profile = { name: string; age: number }
+		const keys = defaultBuilder({
+			productStock: defineKey(["product", p.number("productId"), "stock"], { value: codec.number }),
+			user: parameterize(p("userId"), {
+				profile: defineKey(["profile"], { type: "hash", value: codec.json<Profile>() }),
+				tags: defineKey(["tags"], { type: "set" }),
+			}),
+			plain: ["plain"],
+		})
+
+		it("should build typed keys like plain ones", () => {
+			expect(keys.productStock({ productId: 1 })).toBe("product:1:stock")
+			expect(keys.user({ userId: "u-1" }).profile()).toBe("user:u-1:profile")
+			expect(keys.user.pattern().tags()).toBe("user:*:tags")
+			expect(keys.productStock.pattern()).toBe("product:*:stock")
+			expect(parseKey(keys, "user:u-1:tags")?.id).toBe("user.tags")
+		})
+
+		it("should expose the Redis data type and codec on the builder", () => {
+			expect(keys.productStock.redisType).toBe("string")
+			expect(keys.productStock.codec.decode("42")).toBe(42)
+			expect(() => keys.productStock.codec.decode("x")).toThrow(KeyParseError)
+			expect(() => keys.productStock.codec.decode("x")).toThrow('Cannot decode the value "x": expected a number.')
+			expect(codec.boolean.decode("false")).toBe(false)
+			expect(() => codec.boolean.decode("yes")).toThrow(KeyParseError)
+			expect(() => codec.boolean.decode("1")).toThrow(/expected true or false/)
+
+			const profile = keys.user({ userId: "u-1" }).profile
+			expect(profile.redisType).toBe("hash")
+			expect(profile.codec.decode(profile.codec.encode({ name: "Ann", age: 3 }))).toEqual({ name: "Ann", age: 3 })
+			expect(keys.user({ userId: "u-1" }).tags.codec).toBe(codec.string)
+		})
+
+		it("should carry the value and data type in the key handle type", () => {
+			expectTypeOf(keys.productStock({ productId: 1 })).toEqualTypeOf<
+				RedisKey<number, "string", `product:${number}:stock`>
+			>()
+			expectTypeOf(keys.user({ userId: "u-1" }).profile()).toEqualTypeOf<
+				RedisKey<Profile, "hash", `user:${string}:profile`>
+			>()
+			expectTypeOf(keys.user({ userId: "u-1" }).tags()).toEqualTypeOf<RedisKey<string, "set", `user:${string}:tags`>>()
+			expectTypeOf(keys.plain()).toEqualTypeOf<"plain">()
+			expectTypeOf(keys.productStock({ productId: 1 })).toMatchTypeOf<RedisKey<number, "string">>()
+			expectTypeOf(keys.productStock.codec.decode).returns.toEqualTypeOf<number>()
+
+			// Handles are still strings for any Redis client...
+			const asString: string = keys.productStock({ productId: 1 })
+			expect(asString).toBe("product:1:stock")
+			// ...but a plain string is not a typed handle
+			// @ts-expect-error a plain string doesn't carry value metadata
+			const handle: RedisKey<number, "string"> = "product:1:stock"
+			expect(handle).toBeDefined()
+		})
+
+		it("should reject invalid definitions", () => {
+			// @ts-expect-error definition must be an array
+			expect(() => defineKey("product")).toThrow(/defineKey requires a key definition array/)
+		})
+	})
+
+	describe("Key Expiry", () => {
+		const keys = defaultBuilder({
+			session: withTtl(
+				parameterize(p("sessionId"), {
+					data: ["data"],
+					refresh: withTtl(["refresh"], { seconds: 30 }),
+				}),
+				{ seconds: 3600 }
+			),
+			cache: withTtl(
+				{
+					page: [p("slug")],
+					search: withTtl([p("query"), p.number("page")], ({ page }) => ({ ms: page === 1 ? 60_000 : 5_000 })),
+				},
+				{ ms: 1500 }
+			),
+			tenant: parameterize(p.boolean("premium"), {
+				quota: withTtl(defineKey(["quota"], { value: codec.number }), ({ premium }) => ({
+					seconds: premium ? 86_400 : 3600,
+				})),
+			}),
+			counter: ["counter"],
+			user: parameterize(p("userId"), { profile: ["profile"] }),
+		})
+
+		it("should resolve fixed TTLs in milliseconds from the leaf or its closest level", () => {
+			const session = keys.session({ sessionId: "s-1" })
+			expect(session.data.ttl()).toBe(3_600_000)
+			expect(session.refresh.ttl()).toBe(30_000)
+			expect(keys.cache.page.ttl({ slug: "home" })).toBe(1500)
+			expect(keys.counter.ttl()).toBeUndefined()
+			expect(keys.user({ userId: "u-1" }).profile.ttl()).toBeUndefined()
+		})
+
+		it("should compute TTLs from the key arguments, path parameters included", () => {
+			expect(keys.cache.search.ttl({ query: "redis", page: 1 })).toBe(60_000)
+			expect(keys.cache.search.ttl({ query: "redis", page: 2 })).toBe(5000)
+			expect(keys.tenant({ premium: true }).quota.ttl()).toBe(86_400_000)
+			expect(keys.tenant({ premium: false }).quota.ttl()).toBe(3_600_000)
+		})
+
+		it("should leave the keys and value metadata untouched", () => {
+			expect(keys.session({ sessionId: "s-1" }).refresh()).toBe("session:s-1:refresh")
+			expect(keys.cache.search({ query: "redis", page: 2 })).toBe("cache:redis:2")
+			expect(keys.tenant({ premium: true }).quota.codec).toBe(codec.number)
+			expect(parseKey(keys, "session:s-1:data")?.id).toBe("session.data")
+			expect(Object.keys(keys.cache)).toEqual(["page", "search"])
+		})
+
+		it("should list the keys without a TTL policy", () => {
+			expect(findKeysWithoutTtl(keys)).toEqual(["counter", "user.profile"])
+			expect(findKeysWithoutTtl(defaultBuilder({ all: withTtl({ a: ["a"], b: ["b"] }, { seconds: 1 }) }))).toEqual([])
+		})
+
+		it("should apply a policy wrapping the whole schema", () => {
+			const wrapped = defaultBuilder(withTtl({ a: ["a"], b: { c: ["c"] } }, { seconds: 5 }))
+			expect(wrapped.a.ttl()).toBe(5000)
+			expect(wrapped.b.c.ttl()).toBe(5000)
+			expect(findKeysWithoutTtl(wrapped)).toEqual([])
+		})
+
+		it("should reject invalid TTLs", () => {
+			expect(() => withTtl(["x"], { seconds: 0 })).toThrow(InvalidSchemaError)
+			expect(() => withTtl(["x"], { seconds: 0 })).toThrow(/invalid TTL \{"seconds":0\}/)
+			expect(() => withTtl(["x"], { ms: Number.NaN })).toThrow(/invalid TTL/)
+			// @ts-expect-error placeholders are not schema nodes
+			expect(() => withTtl(p("id"), { seconds: 1 })).toThrow(/withTtl requires/)
+
+			const computed = defaultBuilder({ bad: withTtl(["bad", p.number("n")], ({ n }) => ({ seconds: n })) })
+			expect(computed.bad.ttl({ n: 2 })).toBe(2000)
+			expect(() => computed.bad.ttl({ n: -1 })).toThrow(
+				'Invalid schema at "bad": invalid TTL {"seconds":-1}, expected a positive number of seconds or milliseconds.'
+			)
+		})
+
+		it("should type computed policies with the arguments known at that level", () => {
+			withTtl(parameterize(p.number("shard"), { a: ["a"] }), ({ shard }) => {
+				expectTypeOf(shard).toEqualTypeOf<number>()
+				return { seconds: 1 }
+			})
+			expectTypeOf(keys.cache.search.ttl).toEqualTypeOf<
+				(args: { query: string } & { page: number }) => number | undefined
+			>()
+		})
+	})
+
+	describe("Schema Introspection", () => {
+		const keys = defaultBuilder({
+			user: parameterize(p("userId"), {
+				profile: defineKey(["profile"], { type: "hash", value: codec.json<{ name: string }>() }),
+				orders: { byId: ["order", p.number("orderId")] },
+			}),
+			tenant: hashTag(
+				parameterize([p("tenantId"), p.number("shard")], { config: withTtl(["config"], { seconds: 5 }) })
+			),
+			flag: withTtl([hashTag(p("name")), p.boolean("enabled")], () => ({ ms: 1 })),
+		})
+
+		it("should list every leaf with its rendered template", () => {
+			expect(describeSchema(keys).map(({ id, template }) => ({ id, template }))).toEqual([
+				{ id: "user.profile", template: "user:{userId}:profile" },
+				{ id: "user.orders.byId", template: "user:{userId}:orders:order:{orderId}" },
+				{ id: "tenant.config", template: "tenant:{{tenantId}:{shard}}:config" },
+				{ id: "flag", template: "{{name}}:{enabled}" },
+			])
+		})
+
+		it("should describe placeholders with their type and origin", () => {
+			const [, byId, config, flag] = describeSchema(keys)
+			expect(byId?.path).toEqual(["user", "orders", "byId"])
+			expect(byId?.placeholders).toEqual([
+				{ name: "userId", type: "string", origin: "parameterize", hashTag: false, optional: false },
+				{ name: "orderId", type: "number", origin: "local", hashTag: false, optional: false },
+			])
+			expect(config?.placeholders.map(({ name, hashTag }) => ({ name, hashTag }))).toEqual([
+				{ name: "tenantId", hashTag: true },
+				{ name: "shard", hashTag: true },
+			])
+			expect(flag?.placeholders).toEqual([
+				{ name: "name", type: "string", origin: "local", hashTag: true, optional: false },
+				{ name: "enabled", type: "boolean", origin: "local", hashTag: false, optional: false },
+			])
+		})
+
+		it("should include the separator and the key metadata", () => {
+			const [profile, byId, config, flag] = describeSchema(keys)
+			expect(profile).toMatchObject({ separator: ":", redisType: "hash" })
+			expect(profile?.codec?.decode('{"name":"Ann"}')).toEqual({ name: "Ann" })
+			expect(byId).not.toHaveProperty("redisType")
+			expect(byId).not.toHaveProperty("ttl")
+			expect(config?.ttl).toBe(5000)
+			expect(flag?.ttl).toBe("computed")
+
+			const custom = customSepBuilder({ a: { b: [p("id")] } })
+			expect(describeSchema(custom)).toEqual([
+				{
+					id: "a.b",
+					path: ["a", "b"],
+					template: "a->{id}",
+					separator: "->",
+					placeholders: [{ name: "id", type: "string", origin: "local", hashTag: false, optional: false }],
+				},
+			])
+		})
+	})
+
+	describe("Key Prefix", () => {
+		const schema = {
+			user: parameterize(p("userId"), {
+				profile: ["profile"],
+				orders: { byId: [p.number("orderId")] },
+			}),
+			config: ["config"],
+		}
+		const keys = createKeyBuilder({ prefix: "billing:prod" })(schema)
+
+		it("should put a static prefix in front of every key", () => {
+			expect(keys.config()).toBe("billing:prod:config")
+			expect(keys.user({ userId: "u-1" }).orders.byId({ orderId: 5 })).toBe("billing:prod:user:u-1:orders:5")
+			expect(createKeyBuilder({ prefix: ["billing", "prod"], separator: "->" })(schema).config()).toBe(
+				"billing->prod->config"
+			)
+			expect(createKeyBuilder({ prefix: "" })(schema).config()).toBe("config")
+		})
+
+		it("should evaluate a prefix function on every key build", () => {
+			let environment = "staging"
+			const dynamic = createKeyBuilder({ prefix: () => ["billing", environment] })(schema)
+			const user = dynamic.user({ userId: "u-1" })
+			expect(user.profile()).toBe("billing:staging:user:u-1:profile")
+			environment = "prod"
+			expect(user.profile()).toBe("billing:prod:user:u-1:profile")
+		})
+
+		it("should derive scoped views without redefining the schema", () => {
+			const tenant = withPrefix(keys, "tenant-7")
+			expect(tenant.config()).toBe("billing:prod:tenant-7:config")
+			expect(withPrefix(tenant, ["eu"]).user({ userId: "u-1" }).profile()).toBe(
+				"billing:prod:tenant-7:eu:user:u-1:profile"
+			)
+			// The original view is untouched
+			expect(keys.config()).toBe("billing:prod:config")
+		})
+
+		it("should let call sites replace the prefix, e.g. in tests", () => {
+			const isolated = withPrefix(keys, "test-42", { replace: true })
+			expect(isolated.config()).toBe("test-42:config")
+			expect(withPrefix(keys, [], { replace: true }).config()).toBe("config")
+		})
+
+		it("should apply the prefix to patterns, parsing and introspection", () => {
+			const tenant = withPrefix(keys, "t*1")
+			expect(tenant.user.pattern().profile()).toBe("billing:prod:t\\*1:user:*:profile")
+			expect(parseKey(keys, "billing:prod:user:u-1:orders:5")).toEqual({
+				id: "user.orders.byId",
+				path: ["user", "orders", "byId"],
+				args: { userId: "u-1", orderId: 5 },
+			})
+			expect(parseKey(keys, "user:u-1:orders:5")).toBeNull()
+			expect(parseKey(tenant, tenant.config())?.id).toBe("config")
+			expect(describeSchema(tenant).map((key) => key.template)).toEqual([
+				"billing:prod:t*1:user:{userId}:profile",
+				"billing:prod:t*1:user:{userId}:orders:{orderId}",
+				"billing:prod:t*1:config",
+			])
+		})
+
+		it("should reject invalid prefixes", () => {
+			// @ts-expect-error prefix must be a string or an array of strings
+			expect(() => createKeyBuilder({ prefix: 42 })).toThrow(/key prefix must be a string/)
+			const broken = createKeyBuilder({ prefix: () => null as unknown as string })(schema)
+			expect(() => broken.config()).toThrow(/key prefix must be a string/)
+		})
+	})
+
+	describe("Argument Validation", () => {
+		const keys = defaultBuilder({
+			product: parameterize(p.number("productId", { integer: true, min: 1 }), {
+				stock: ["stock"],
+			}),
+			page: ["page", p("slug", { pattern: /^[a-z0-9-]+$/, maxLength: 12 })],
+			rating: ["rating", p.number("stars", { min: 1, max: 5 })],
+			order: ["order", p("status", { oneOf: ["open", "closed"] }), p.number("priority", { oneOf: [1, 2] })],
+			flag: ["flag", p.boolean("enabled")],
+		})
+
+		it("should accept valid values", () => {
+			expect(keys.product({ productId: 3 }).stock()).toBe("product:3:stock")
+			expect(keys.page({ slug: "hello-world" })).toBe("page:hello-world")
+			expect(keys.rating({ stars: 4.5 })).toBe("rating:4.5")
+			expect(keys.order({ status: "open", priority: 2 })).toBe("order:open:2")
+		})
+
+		it("should check the actual type of number and boolean values", () => {
+			const untyped = JSON.parse('{ "productId": "abc", "enabled": "yes" }')
+			expect(() => keys.product(untyped)).toThrow(
+				'Invalid value "abc" for placeholder "productId" in "product": expected a finite number.'
+			)
+			expect(() => keys.flag(untyped)).toThrow(/"enabled" in "flag:enabled": expected a boolean/)
+			expect(() => keys.rating({ stars: Number.NaN })).toThrow(/expected a finite number/)
+		})
+
+		it("should only stringify primitives into string placeholders", () => {
+			const lookup = defaultBuilder({ l: ["l", p("a")] })
+			for (const a of [{}, ["x"], () => "x", Symbol("x")]) {
+				expect(() => lookup.l({ a } as unknown as { a: string })).toThrow(/"a" in "l:a": expected a string/)
+			}
+			expect(lookup.l({ a: 42 as unknown as string })).toBe("l:42")
+			expect(lookup.l({ a: true as unknown as string })).toBe("l:true")
+		})
+
+		it("should enforce the constraints", () => {
+			expect(() => keys.product({ productId: 1.5 })).toThrow(/expected an integer/)
+			expect(() => keys.product({ productId: 0 })).toThrow(/expected at least 1/)
+			expect(() => keys.rating({ stars: 6 })).toThrow(/expected at most 5/)
+			expect(() => keys.page({ slug: "Hello" })).toThrow(/expected to match \/\^\[a-z0-9-\]\+\$\//)
+			expect(() => keys.page({ slug: "a-very-long-slug" })).toThrow(/expected at most 12 characters/)
+			expect(() => keys.order({ status: "pending", priority: 1 })).toThrow(/expected one of open, closed/)
+			expect(() => keys.order({ status: "open", priority: 3 })).toThrow(/expected one of 1, 2/)
+			// Provided pattern arguments are checked too
+			expect(() => keys.rating.pattern({ stars: 9 })).toThrow(InvalidArgumentError)
+		})
+
+		it("should expose the details on the error", () => {
+			try {
+				keys.rating({ stars: 0 })
+				expect.unreachable()
+			} catch (error) {
+				expect(error).toBeInstanceOf(InvalidArgumentError)
+				expect(error).toMatchObject({
+					placeholder: "stars",
+					path: "rating:stars",
+					value: 0,
+					reason: "expected at least 1",
+				})
+			}
+		})
+
+		it("should not parse keys the builders would reject", () => {
+			expect(parseKey(keys, "rating:4")?.args).toEqual({ stars: 4 })
+			expect(parseKey(keys, "rating:9")).toBeNull()
+			expect(parseKey(keys, "product:1.5:stock")).toBeNull()
+			expect(parseKey(keys, "page:UPPER")).toBeNull()
+			expect(describeSchema(keys)[2]?.placeholders[0]?.constraints).toEqual({ min: 1, max: 5 })
+		})
+	})
+
+	describe("Placeholder Kinds", () => {
+		type Money = { amount: number; currency: string }
+		const money = p.custom("price", {
+			encode: (value: Money) => `${value.amount}${value.currency}`,
+			decode: (segment): Money => {
+				const match = /^(\d+)([A-Z]{3})$/.exec(segment)
+				if (!match) {
+					throw new Error(`Not a price: ${segment}`)
+				}
+				return { amount: Number(match[1]), currency: match[2] as string }
+			},
+		})
+		const keys = defaultBuilder({
+			account: parameterize(p.enum("status", ["active", "banned"] as const), {
+				list: ["list"],
+			}),
+			daily: ["stats", p.date("day", { granularity: "day" })],
+			hourly: ["stats", p("metric"), p.date("hour", { granularity: "hour" })],
+			monthly: ["stats", "monthly", p.date("month", { granularity: "month" })],
+			session: ["session", p.uuid("sessionId")],
+			offer: ["offer", money],
+		})
+		const date = new Date(Date.UTC(2024, 0, 5, 13, 4, 7))
+
+		it("should type the arguments from the placeholder kinds", () => {
+			expectTypeOf(keys.account).parameter(0).toEqualTypeOf<{ status: "active" | "banned" }>()
+			expectTypeOf(keys.daily).parameter(0).toEqualTypeOf<{ day: Date }>()
+			expectTypeOf(keys.session).parameter(0).toEqualTypeOf<{ sessionId: string }>()
+			expectTypeOf(keys.offer).parameter(0).toEqualTypeOf<{ price: Money }>()
+
+			const parsed = parseKey(keys, "stats:2024-01-05")
+			if (parsed?.id === "daily") {
+				expectTypeOf(parsed.args.day).toEqualTypeOf<Date>()
+			}
+			// @ts-expect-error "deleted" is not one of the enum values
+			expect(() => keys.account({ status: "deleted" })).toThrow(/expected one of active, banned/)
+		})
+
+		it("should render enums, dates, UUIDs and custom types canonically", () => {
+			expect(keys.account({ status: "banned" }).list()).toBe("account:banned:list")
+			expect(keys.daily({ day: date })).toBe("stats:2024-01-05")
+			expect(keys.hourly({ metric: "cpu", hour: date })).toBe("stats:cpu:2024-01-05T13")
+			expect(keys.monthly({ month: date })).toBe("stats:monthly:2024-01")
+			expect(keys.session({ sessionId: "0B7A2C1E-58F4-4C2B-9E1D-3F6A7B8C9D0E" })).toBe(
+				"session:0b7a2c1e-58f4-4c2b-9e1d-3f6a7b8c9d0e"
+			)
+			expect(keys.offer({ price: { amount: 20, currency: "EUR" } })).toBe("offer:20EUR")
+		})
+
+		it("should support every date granularity", () => {
+			const cases = [
+				["year", "2024", Date.UTC(2024, 0)],
+				["month", "2024-01", Date.UTC(2024, 0)],
+				["day", "2024-01-05", Date.UTC(2024, 0, 5)],
+				["hour", "2024-01-05T13", Date.UTC(2024, 0, 5, 13)],
+				["minute", "2024-01-05T1304", Date.UTC(2024, 0, 5, 13, 4)],
+				["second", "2024-01-05T130407", Date.UTC(2024, 0, 5, 13, 4, 7)],
+			] as const
+			for (const [granularity, segment, truncated] of cases) {
+				const placeholder = p.date("at", { granularity })
+				expect(defaultBuilder({ at: [placeholder] }).at({ at: date })).toBe(segment)
+				expect(placeholder.decode(segment)).toEqual(new Date(truncated))
+			}
+			expect(() => p.date("at", { granularity: "week" as "day" })).toThrow(/unknown date granularity "week"/)
+		})
+
+		it("should reject values of the wrong kind", () => {
+			expect(() => keys.daily({ day: new Date("nope") })).toThrow(/expected a valid Date/)
+			expect(() => keys.daily(JSON.parse('{ "day": "2024-01-05" }'))).toThrow(InvalidArgumentError)
+			expect(() => keys.session({ sessionId: "not-a-uuid" })).toThrow(/expected a UUID/)
+			expect(() => p.enum("status", [])).toThrow(/requires a non-empty array/)
+			// @ts-expect-error codec is required
+			expect(() => p.custom("price")).toThrow(/requires a codec/)
+		})
+
+		it("should report values rejected by a custom codec as invalid arguments", () => {
+			const positive = p.custom("amount", {
+				encode: (value: number) => {
+					if (value < 0) {
+						throw new Error("expected a positive amount")
+					}
+					return String(value)
+				},
+				decode: Number,
+			})
+			const credits = defaultBuilder({ credit: ["credit", positive] }).credit
+			expect(() => credits({ amount: -1 })).toThrow(
+				'[RedisKeyBuilder] Invalid value "-1" for placeholder "amount" in "credit:amount": expected a positive amount.'
+			)
+			const batch = credits.many([{ amount: 1 }, { amount: -1 }], { collectErrors: true })
+			expect(batch.results).toEqual(["credit:1", undefined])
+			expect(batch.errors[0]?.error).toBeInstanceOf(InvalidArgumentError)
+			expect(batch.errors[0]?.error).toMatchObject({ placeholder: "amount", expected: "custom", schemaPath: "credit" })
+		})
+
+		it("should decode key segments back into typed values", () => {
+			expect(p.date("day").decode("2024-01-05")).toEqual(new Date(Date.UTC(2024, 0, 5)))
+			expect(() => p.date("day").decode("2024-02-31")).toThrow(/Cannot decode "2024-02-31"/)
+			expect(() => p.date("day").decode("2024-01")).toThrow(/"day" granularity/)
+			expect(p.number("n").decode("42")).toBe(42)
+			expect(() => p.boolean("b").decode("yes")).toThrow(/for placeholder "b": expected true or false/)
+			expect(p.enum("status", ["active", "banned"]).decode("active")).toBe("active")
+			expect(() => p.enum("status", ["active", "banned"]).decode("deleted")).toThrow(/expected one of/)
+			expect(money.decode("5USD")).toEqual({ amount: 5, currency: "USD" })
+		})
+
+		it("should parse keys back into typed values", () => {
+			expect(parseKey(keys, "stats:cpu:2024-01-05T13")?.args).toEqual({
+				metric: "cpu",
+				hour: new Date(Date.UTC(2024, 0, 5, 13)),
+			})
+			expect(parseKey(keys, "stats:monthly:2024-01")?.id).toBe("monthly")
+			expect(parseKey(keys, "account:deleted:list")).toBeNull()
+			expect(parseKey(keys, "offer:20EUR")?.args).toEqual({ price: { amount: 20, currency: "EUR" } })
+			expect(parseKey(keys, "offer:cheap")).toBeNull()
+			expect(describeSchema(keys).map((key) => key.placeholders.map((placeholder) => placeholder.type))).toEqual([
+				["enum"],
+				["date"],
+				["string", "date"],
+				["date"],
+				["uuid"],
+				["custom"],
+			])
+		})
+	})
+
+	describe("Optional Placeholders", () => {
+		const keys = defaultBuilder({
+			feed: ["feed", p("userId"), optional(p("category")), optional(p.number("page"))],
+			events: parameterize(optional(p("region"), { default: "eu" }), {
+				daily: ["daily", optional(p("day"), { default: "today" }), "count"],
+			}),
+		})
+
+		it("should make the arguments optional in the builder signature", () => {
+			expectTypeOf(keys.feed)
+				.parameter(0)
+				.toEqualTypeOf<{ userId: string } & { category?: string } & { page?: number }>()
+			expectTypeOf(keys.events).parameter(0).toEqualTypeOf<{ region?: string } | undefined>()
+			expectTypeOf(keys.events().daily).parameter(0).toEqualTypeOf<{ day?: string } | undefined>()
+			// @ts-expect-error userId is still required
+			expect(() => keys.feed({})).toThrow(/Missing value for argument placeholder "userId"/)
+		})
+
+		it("should leave out trailing segments and fill in defaults", () => {
+			expect(keys.feed({ userId: "u1" })).toBe("feed:u1")
+			expect(keys.feed({ userId: "u1", category: "news" })).toBe("feed:u1:news")
+			expect(keys.feed({ userId: "u1", category: "news", page: 2 })).toBe("feed:u1:news:2")
+			expect(keys.events().daily()).toBe("events:eu:daily:today:count")
+			expect(keys.events({ region: "us" }).daily({ day: "mon" })).toBe("events:us:daily:mon:count")
+		})
+
+		it("should only build patterns matching every key of a leaf", () => {
+			// Defaulted placeholders always render a segment, left out of a pattern it matches any value
+			expect(keys.events.pattern().daily.pattern()).toBe("events:*:daily:*:count")
+			expect(keys.events.pattern({ region: "us" }).daily.pattern({ day: "mon" })).toBe("events:us:daily:mon:count")
+			expect(keys.feed.pattern({ userId: "u1", category: "news", page: 2 })).toBe("feed:u1:news:2")
+			expect(keys.feed.pattern({ category: "news", page: 2 })).toBe("feed:*:news:2")
+			// `feed:u1:*` would miss `feed:u1` and `feed:u1` would miss `feed:u1:news`
+			expect(() => keys.feed.pattern({ userId: "u1" })).toThrow(
+				/"category" in "feed:userId:category:page": an optional segment can't be left out of a pattern/
+			)
+			expect(() => keys.feed.pattern({ userId: "u1", category: "news" })).toThrow(InvalidArgumentError)
+		})
+
+		it("should not build a key that skips an optional segment", () => {
+			expect(() => keys.feed({ userId: "u1", page: 2 })).toThrow(
+				/"page" in "feed:userId:category:page": can't be given while "category" is left out/
+			)
+		})
+
+		it("should only allow optional segments at the end of a key", () => {
+			expect(() => defaultBuilder({ bad: ["a", optional(p("b")), "c"] })).toThrow(
+				/Invalid schema at "bad": an optional placeholder is followed by required parts/
+			)
+			expect(() => parameterize(optional(p("region")), { x: ["x"] })).toThrow(
+				/path parameter "region" can't be optional without a default/
+			)
+			expect(() => optional(hashTag(p("userId")))).toThrow(/can only be optional with a default/)
+			expect(() => optional(p.number("page", { min: 1 }), { default: 0 })).toThrow(/invalid default "0"/)
+		})
+
+		it("should parse keys with and without the optional segments", () => {
+			expect(parseKey(keys, "feed:u1")?.args).toEqual({ userId: "u1" })
+			expect(parseKey(keys, "feed:u1:news:2")?.args).toEqual({ userId: "u1", category: "news", page: 2 })
+			expect(parseKey(keys, "events:eu:daily:today:count")?.args).toEqual({ region: "eu", day: "today" })
+			expect(parseKey(keys, "feed")).toBeNull()
+			expect(describeSchema(keys)[0]?.template).toBe("feed:{userId}:{category?}:{page?}")
+			expect(describeSchema(keys)[1]?.placeholders).toEqual([
+				{ name: "region", type: "string", origin: "parameterize", hashTag: false, optional: true, default: "eu" },
+				{ name: "day", type: "string", origin: "local", hashTag: false, optional: true, default: "today" },
+			])
+		})
+	})
+
+	describe("Schema Composition", () => {
+		const billing = createKeyBuilder({ prefix: "billing" })({
+			invoice: ["invoice", p.number("invoiceId")],
+		})
+		const catalog = createKeyBuilder({ separator: "/", prefix: "catalog" })({
+			product: ["product", p("sku")],
+		})
+
+		it("should mount a schema under a static or parameterized path, keeping its prefix", () => {
+			const keys = defaultBuilder({
+				shared: mount(billing),
+				tenant: parameterize(p("tenantId"), { billing: mount(billing) }),
+			})
+			expect(keys.shared.invoice({ invoiceId: 1 })).toBe("shared:billing:invoice:1")
+			expect(keys.tenant({ tenantId: "t1" }).billing.invoice({ invoiceId: 2 })).toBe(
+				"tenant:t1:billing:billing:invoice:2"
+			)
+			expect(keys.tenant.pattern().billing.invoice.pattern()).toBe("tenant:*:billing:billing:invoice:*")
+			expect(parseKey(keys, "shared:billing:invoice:1")).toEqual({
+				id: "shared.invoice",
+				path: ["shared", "invoice"],
+				args: { invoiceId: 1 },
+			})
+			// Mounted keys follow the host's separator
+			expect(customSepBuilder({ catalog: mount(catalog) }).catalog.product({ sku: "a" })).toBe(
+				"catalog->catalog->product->a"
+			)
+		})
+
+		it("should extend a built schema with its options", () => {
+			const keys = extend(billing, { receipt: ["receipt", p("receiptId")] })
+			expect(keys.invoice({ invoiceId: 1 })).toBe("billing:invoice:1")
+			expect(keys.receipt({ receiptId: "r" })).toBe("billing:receipt:r")
+			expect(parseKey(keys, "billing:receipt:r")?.id).toBe("receipt")
+
+			// @ts-expect-error invoice is already defined
+			expect(() => extend(billing, { invoice: ["other"] })).toThrow(
+				/Invalid schema at "invoice": the key is already defined/
+			)
+			expect(() => extend(billing, { copy: ["invoice", p.number("id")] })).toThrow(
+				/Keys "invoice" and "copy" have the same template "billing:invoice:\{\}"/
+			)
+		})
+
+		it("should merge schemas that keep their own separator and prefix", () => {
+			const keys = merge(billing, catalog)
+			expect(keys.invoice({ invoiceId: 1 })).toBe("billing:invoice:1")
+			expect(keys.product({ sku: "a" })).toBe("catalog/product/a")
+			expect(parseKey(keys, "catalog/product/a")?.args).toEqual({ sku: "a" })
+			expect(parseKey(keys, "billing:invoice:7")?.id).toBe("invoice")
+			expect(describeSchema(keys).map((key) => key.template)).toEqual([
+				"billing:invoice:{invoiceId}",
+				"catalog/product/{sku}",
+			])
+			expect(findKeysWithoutTtl(keys)).toEqual(["invoice", "product"])
+
+			const scoped = withPrefix(keys, "t1")
+			expect(scoped.invoice({ invoiceId: 1 })).toBe("billing:t1:invoice:1")
+			expect(scoped.product({ sku: "a" })).toBe("catalog/t1/product/a")
+		})
+
+		it("should reject conflicting keys and identical templates when merging", () => {
+			// @ts-expect-error invoice is defined twice
+			expect(() => merge(billing, billing)).toThrow(
+				/Invalid schema at "invoice": the key is defined by more than one merged schema/
+			)
+			const copy = createKeyBuilder({ prefix: "billing" })({ copy: ["invoice", p("id")] })
+			expect(() => merge(billing, copy)).toThrow(/Keys "invoice" and "copy" have the same template/)
+			expect(() => mount(merge(billing, catalog))).toThrow(/mount them one by one/)
+		})
+	})
+
+	describe("Collision Detection", () => {
+		it("should report leaves that can build the same key, with an example", () => {
+			const keys = defaultBuilder({
+				a: ["x", p("id")],
+				b: ["x", "profile"],
+				user: parameterize(p("userId"), { settings: ["settings"] }),
+				mySettings: ["user", "me", "settings"],
+				c: ["y", p("name"), "z"],
+				d: [p("kind"), "w", "z"],
+			})
+			expect(findKeyCollisions(keys)).toEqual([
+				{ paths: ["a", "b"], example: "x:profile" },
+				{ paths: ["user.settings", "mySettings"], example: "user:me:settings" },
+				{ paths: ["c", "d"], example: "y:w:z" },
+			])
+		})
+
+		it("should only report examples that both leaves accept with valid values", () => {
+			const keys = defaultBuilder({
+				byId: ["item", p.number("id")],
+				recent: ["item", "recent"],
+				byFlag: ["item", p.boolean("flag")],
+				byName: ["item", p("name")],
+			})
+			expect(findKeyCollisions(keys)).toEqual([
+				{ paths: ["byId", "byName"], example: "item:1" },
+				{ paths: ["recent", "byName"], example: "item:recent" },
+				{ paths: ["byFlag", "byName"], example: "item:true" },
+			])
+		})
+
+		it("should account for optional segments, hash tags and merged schemas", () => {
+			const keys = defaultBuilder({
+				list: ["feed", p("userId"), optional(p("page"))],
+				latest: ["feed", hashTag(p("userId"))],
+				all: ["feed", "all", "latest"],
+			})
+			expect(findKeyCollisions(keys)).toEqual([
+				{ paths: ["list", "latest"], example: "feed:{userId}" },
+				{ paths: ["list", "all"], example: "feed:all:latest" },
+			])
+			const other = createKeyBuilder({ separator: "/" })({ slash: ["x:y"] })
+			expect(findKeyCollisions(merge(defaultBuilder({ colon: ["x", p("y")] }), other))).toEqual([
+				{ paths: ["colon", "slash"], example: "x:y" },
+			])
+		})
+
+		it("should throw at define time with checkCollisions", () => {
+			const strictBuilder = createKeyBuilder({ checkCollisions: true })
+			expect(() => strictBuilder({ a: ["x", p("id")], b: ["x", "profile"] })).toThrow(
+				/Keys "a" and "b" can collide, e.g. on "x:profile"/
+			)
+			expect(findKeyCollisions(strictBuilder({ a: ["x", p.number("id")], b: ["x", "profile"] }))).toEqual([])
+		})
+	})
+
+	describe("Strict Mode", () => {
+		const strictBuilder = createKeyBuilder({ strict: true })
+
+		const schemaError = (define: () => unknown): InvalidSchemaError => {
+			try {
+				define()
+			} catch (error) {
+				expect(error).toBeInstanceOf(InvalidSchemaError)
+				return error as InvalidSchemaError
+			}
+			throw new Error("Expected an InvalidSchemaError")
+		}
+
+		it("should reject entries that would be skipped, even below parameterized levels", () => {
+			const undefinedValue = schemaError(() => strictBuilder({ user: { profile: undefined as unknown as ["x"] } }))
+			expect(undefinedValue.path).toBe("user.profile")
+			expect(undefinedValue.message).toBe('[RedisKeyBuilder] Invalid schema at "user.profile": the value is undefined.')
+
+			const typo = schemaError(() =>
+				strictBuilder({ user: parameterize(p("userId"), { count: 42 as unknown as ["count"] }) })
+			)
+			expect(typo.path).toBe("user.count")
+			expect(typo.reason).toMatch(/got number/)
+
+			// Without strict mode, the entry is skipped with a warning
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+			try {
+				expect(defaultBuilder({ user: { count: 42 as unknown as ["count"] } }).user).toEqual({})
+				expect(warn).toHaveBeenCalledWith(
+					'[RedisKeyBuilder] Encountered unexpected value type in schema at path "user:count". Skipping.'
+				)
+			} finally {
+				warn.mockRestore()
+			}
+		})
+
+		it("should reject empty static parts and separators inside static parts", () => {
+			expect(schemaError(() => strictBuilder({ a: ["x", ""] })).reason).toBe("static parts can't be empty")
+			expect(schemaError(() => strictBuilder({ a: ["x:y"] })).reason).toBe(
+				'static part "x:y" contains the separator ":"'
+			)
+			expect(schemaError(() => strictBuilder({ "a:b": { c: ["c"] } })).path).toBe("a:b.c")
+			expect(defaultBuilder({ a: ["x:y"] }).a()).toBe("x:y")
+		})
+
+		it("should reject empty and repeated placeholder names in a key", () => {
+			expect(schemaError(() => strictBuilder({ a: ["x", p("")] })).reason).toBe("placeholder names can't be empty")
+			const repeated = schemaError(() => strictBuilder({ user: parameterize(p("id"), { post: ["post", p("id")] }) }))
+			expect(repeated.path).toBe("user.post")
+			expect(repeated.reason).toBe('placeholder "id" appears more than once in the key')
+			expect(strictBuilder({ user: parameterize(p("userId"), { post: ["post", p("postId")] }) }).user).toBeDefined()
+		})
+	})
+
+	describe("Error Classes", () => {
+		const keys = defaultBuilder({
+			user: parameterize(p("userId"), {
+				orders: { byId: ["order", p.number("orderId")] },
+			}),
+			shard: ["shard", hashTag(p("shardId")), p("name")],
+		})
+
+		const thrown = (action: () => unknown): unknown => {
+			try {
+				action()
+			} catch (error) {
+				expect(error).toBeInstanceOf(RedisKeyBuilderError)
+				return error
+			}
+			throw new Error("Expected the action to throw")
+		}
+
+		it("should report missing arguments of leaves and parameterized levels", () => {
+			const local = thrown(() => keys.user({ userId: "u1" }).orders.byId({} as { orderId: number }))
+			expect(local).toBeInstanceOf(MissingArgumentError)
+			expect(local).toMatchObject({
+				placeholder: "orderId",
+				path: "user:u1:orders:order:orderId",
+				schemaPath: "user.orders.byId",
+				expected: "number",
+				origin: "local",
+			})
+
+			const parameter = thrown(() => keys.user({} as { userId: string }))
+			expect(parameter).toMatchObject({ placeholder: "userId", schemaPath: "user", origin: "parameterize" })
+		})
+
+		it("should report invalid arguments with the expected kind and the received value", () => {
+			const invalid = thrown(() => keys.user({ userId: "u1" }).orders.byId(JSON.parse('{ "orderId": "abc" }')))
+			expect(invalid).toBeInstanceOf(InvalidArgumentError)
+			expect(invalid).toMatchObject({
+				placeholder: "orderId",
+				schemaPath: "user.orders.byId",
+				expected: "number",
+				value: "abc",
+				reason: "expected a finite number",
+			})
+			expect(thrown(() => keys.shard({ shardId: "a}b", name: "x" }))).toMatchObject({
+				placeholder: "shardId",
+				schemaPath: "shard",
+				reason: expect.stringContaining('would not be hashed on its hash tag "{a}b}"'),
+			})
+		})
+
+		it("should report parse failures and collisions", () => {
+			const decode = thrown(() => p.number("orderId").decode("abc"))
+			expect(decode).toBeInstanceOf(KeyParseError)
+			expect(decode).toMatchObject({
+				input: "abc",
+				placeholder: "orderId",
+				expected: "number",
+				reason: "expected a number",
+			})
+
+			const ambiguous = thrown(() => parseKey(defaultBuilder({ a: ["x", p("id")], b: ["x", "profile"] }), "x:profile"))
+			expect(ambiguous).toBeInstanceOf(KeyParseError)
+			expect(ambiguous).toMatchObject({ input: "x:profile", paths: ["a", "b"] })
+
+			const collision = thrown(() => createKeyBuilder({ checkCollisions: true })({ a: ["x", p("id")], b: ["x", "y"] }))
+			expect(collision).toBeInstanceOf(KeyCollisionError)
+			expect(collision).toMatchObject({ paths: ["a", "b"], example: "x:y" })
+			expect(thrown(() => merge(keys, defaultBuilder({ copy: ["shard", hashTag(p("s")), p("n")] })))).toMatchObject({
+				paths: ["shard", "copy"],
+			})
+			expect(thrown(() => defaultBuilder({ bad: ["a", optional(p("b")), "c"] }))).toBeInstanceOf(InvalidSchemaError)
+		})
+
+		it("should report schema helper misuse as invalid schemas", () => {
+			const helper = thrown(() => parameterize(p("id"), null as unknown as Record<string, never>))
+			expect(helper).toBeInstanceOf(InvalidSchemaError)
+			expect(helper).toMatchObject({
+				path: "",
+				reason: "parameterize requires a valid nested schema object as the second argument",
+			})
+			expect((helper as Error).message).toBe(
+				"[RedisKeyBuilder] Invalid schema: parameterize requires a valid nested schema object as the second argument."
+			)
+			for (const action of [
+				() => p.enum("plan", []),
+				() => p.custom("id", {} as never),
+				() => hashTag("id" as never),
+				() => optional("id" as never),
+				() => defineKey("key" as never),
+				() => defineChannel("channel" as never),
+				() => withTtl(defineChannel(["events"]) as never, { seconds: 1 }),
+			]) {
+				expect(thrown(action)).toBeInstanceOf(InvalidSchemaError)
+			}
+		})
+
+		it("should report invalid options and batches as key builder errors", () => {
+			// `thrown` asserts the base class
+			thrown(() => createKeyBuilder({ prefix: 1 as unknown as string }))
+			thrown(() => createKeyBuilder({ maxKeyLength: 0 }))
+			thrown(() => keys.user.many("u1" as never))
+			thrown(() => mount({ a: ["a"] } as never))
+		})
+	})
+
+	describe("Precompiled Builders", () => {
+		const schema = {
+			user: parameterize(p("userId"), {
+				profile: ["profile"],
+				orders: { byId: ["order", p.number("orderId")] },
+			}),
+		}
+
+		it("should reuse the view of the same path parameters", () => {
+			const keys = createKeyBuilder()(schema)
+			const view = keys.user({ userId: "u-1" })
+
+			expect(keys.user({ userId: "u-1" })).toBe(view)
+			expect(keys.user({ userId: "u-2" })).not.toBe(view)
+			expect(keys.user({ userId: "u-2" }).orders.byId({ orderId: 7 })).toBe("user:u-2:orders:order:7")
+			expect(view.orders.byId({ orderId: 7 })).toBe("user:u-1:orders:order:7")
+			// Pattern views render globs, a literal `*` value is not a wildcard
+			expect(keys.user.pattern({ userId: "u-1" })).not.toBe(view)
+			expect(keys.user({ userId: "*" }).profile()).toBe("user:*:profile")
+			expect(keys.user.pattern().profile()).toBe("user:*:profile")
+			expect(keys.user.pattern({ userId: "*" }).profile()).toBe("user:\\*:profile")
+		})
+
+		it("should evict the oldest views beyond `viewCacheSize`", () => {
+			const keys = createKeyBuilder({ viewCacheSize: 1 })(schema)
+			const view = keys.user({ userId: "u-1" })
+
+			expect(keys.user({ userId: "u-1" })).toBe(view)
+			keys.user({ userId: "u-2" })
+			expect(keys.user({ userId: "u-1" })).not.toBe(view)
+
+			const uncached = createKeyBuilder({ viewCacheSize: 0 })(schema)
+			expect(uncached.user({ userId: "u-1" })).not.toBe(uncached.user({ userId: "u-1" }))
+		})
+
+		it("should not cache views whose computed TTLs read the path parameters", () => {
+			const keys = createKeyBuilder()({
+				session: parameterize(p("sessionId"), {
+					data: withTtl(["data"], () => ({ seconds: 60 })),
+				}),
+				plan: parameterize(p("planId"), {
+					quota: withTtl(["quota"], ({ planId }) => ({ seconds: String(planId).length })),
+				}),
+			})
+
+			expect(keys.plan({ planId: "abc" }).quota.ttl()).toBe(3000)
+			expect(keys.plan({ planId: "abcdef" }).quota.ttl()).toBe(6000)
+			expect(keys.session({ sessionId: "s-1" })).not.toBe(keys.session({ sessionId: "s-1" }))
+		})
+
+		it("should keep the dynamic key prefix and errors of cached views", () => {
+			let tenant = "t-1"
+			const keys = createKeyBuilder({ prefix: () => tenant })(schema)
+			const view = keys.user({ userId: "u-1" })
+
+			expect(view.profile()).toBe("t-1:user:u-1:profile")
+			tenant = "t-2"
+			expect(keys.user({ userId: "u-1" }).profile()).toBe("t-2:user:u-1:profile")
+			// @ts-expect-error - testing the runtime check
+			expect(() => view.orders.byId({})).toThrow(MissingArgumentError)
+			// @ts-expect-error - testing the runtime check
+			expect(() => keys.user({})).toThrow(/Missing value for path parameter "userId" required by "user"/)
+		})
+	})
+
+	describe("Lazy Mode", () => {
+		const schema = {
+			config: ["config"],
+			product: ["product", p.number("productId"), optional(p.enum("variant", ["s", "m"]))],
+			user: parameterize(p("userId"), {
+				profile: defineKey(["profile"], { type: "json", value: codec.json<{ name: string }>() }),
+				sessions: withTtl(["session", p("sessionId")], { seconds: 60 }),
+				orders: { byId: ["order", p.number("orderId")], recent: ["orders", "recent"] },
+			}),
+			tenant: hashTag(parameterize([p("tenantId"), p("region")], { members: { roles: ["roles"] } })),
+		}
+		const eager = createKeyBuilder({ prefix: "app" })(schema)
+		const lazy = createKeyBuilder({ prefix: "app", lazy: true })(schema)
+
+		it("should build the same keys as eager mode", () => {
+			const buildAll = (keys: typeof eager) => [
+				keys.config(),
+				keys.product({ productId: 1 }),
+				keys.product({ productId: 1, variant: "m" }),
+				keys.product.pattern({ variant: "s" }),
+				keys.user({ userId: "u-1" }).profile(),
+				keys.user({ userId: "u-1" }).profile.redisType,
+				keys.user({ userId: "u-1" }).sessions({ sessionId: "s-1" }),
+				keys.user({ userId: "u-1" }).sessions.ttl({ sessionId: "s-1" }),
+				keys.user({ userId: "u-1" }).orders.byId({ orderId: 7 }),
+				keys.user.pattern().orders.recent(),
+				keys.tenant({ tenantId: "acme", region: "eu" }).members.roles(),
+			]
+
+			expect(buildAll(lazy)).toEqual(buildAll(eager))
+			expect(buildAll(lazy)).toContain("app:tenant:{acme:eu}:members:roles")
+			expect(Object.keys(lazy)).toEqual(Object.keys(eager))
+			expect(Object.keys(lazy.user({ userId: "u-1" }).orders)).toEqual(["byId", "recent"])
+			expect(lazy.user({ userId: "u-1" }).orders).toBe(lazy.user({ userId: "u-1" }).orders)
+			expectTypeOf(lazy).toEqualTypeOf(eager)
+		})
+
+		it("should throw the same errors as eager mode", () => {
+			// @ts-expect-error - testing the runtime check
+			expect(() => lazy.user({})).toThrow(MissingArgumentError)
+			expect(() => lazy.product({ productId: Number.NaN })).toThrow(InvalidArgumentError)
+			// @ts-expect-error - testing the runtime check
+			expect(() => lazy.user({ userId: "u-1" }).orders.byId({})).toThrow(
+				/Missing value for argument placeholder "orderId" when building key like "user:u-1:orders:order:orderId"/
+			)
+		})
+
+		it("should compile nested levels on first access", () => {
+			let compiled = 0
+			const counted = {
+				feature: {
+					get flag() {
+						compiled++
+						return ["flag"] as const
+					},
+				},
+			}
+			const keys = createKeyBuilder({ lazy: true })(counted)
+			expect(compiled).toBe(0)
+			expect(keys.feature.flag()).toBe("feature:flag")
+			expect(keys.feature.flag()).toBe("feature:flag")
+			expect(compiled).toBe(1)
+		})
+
+		it("should only validate nested levels up front when strict or checking collisions", () => {
+			const invalid = {
+				config: ["config"],
+				user: parameterize(p("userId"), { bad: ["a", optional(p("b")), "c"] }),
+			} as const
+			const keys = createKeyBuilder({ lazy: true })(invalid)
+			expect(keys.config()).toBe("config")
+			expect(() => keys.user({ userId: "u-1" })).toThrow(/an optional placeholder is followed by required parts/)
+
+			expect(() => createKeyBuilder({ lazy: true, strict: true })(invalid)).toThrow(InvalidSchemaError)
+			expect(() => createKeyBuilder({ lazy: true, checkCollisions: true })(invalid)).toThrow(InvalidSchemaError)
+		})
+
+		it("should work with the schema helpers", () => {
+			expect(parseKey(lazy, "app:user:u-1:orders:order:7")).toEqual(parseKey(eager, "app:user:u-1:orders:order:7"))
+			expect(describeSchema(lazy)).toEqual(describeSchema(eager))
+			expect(withPrefix(lazy, "v2").config()).toBe("app:v2:config")
+			expect({ ...lazy }.config()).toBe("app:config")
+
+			const merged = merge(lazy, createKeyBuilder({ lazy: true })({ other: ["other"] }))
+			expect(merged.other()).toBe("other")
+			expect(merged.user({ userId: "u-1" }).orders.recent()).toBe("app:user:u-1:orders:orders:recent")
+		})
+	})
+
+	describe("Key Migration", () => {
+		const v1 = createKeyBuilder()({
+			user: parameterize(p("userId"), {
+				profile: ["profile"],
+				order: ["order", p("region"), p.number("orderId")],
+				avatar: ["avatar"],
+			}),
+			config: ["config"],
+		})
+		const v2 = createKeyBuilder()({
+			usr: parameterize(p("userId"), {
+				profile: ["profile"],
+				order: ["order", p.number("orderId"), p("region")],
+			}),
+			config: ["config"],
+		})
+		const migration = createKeyMigration({ from: v1, to: v2, paths: { user: "usr", "user.avatar": null } })
+
+		it("should map old keys to new ones by parsing and rebuilding them", () => {
+			expect(migration.migrateKey("user:u-1:profile")).toBe("usr:u-1:profile")
+			expect(migration.migrateKey("user:u-1:order:eu:7")).toBe("usr:u-1:order:7:eu")
+			expect(migration.migrateKey("config")).toBe("config")
+			expect(migration.migrateKey("user:u-1:avatar")).toBeNull()
+			expect(migration.migrateKey("unknown:key")).toBeNull()
+		})
+
+		it("should list old to new template pairs", () => {
+			expect(migration.plan()).toEqual([
+				{
+					from: "user.profile",
+					to: "usr.profile",
+					fromTemplate: "user:{userId}:profile",
+					toTemplate: "usr:{userId}:profile",
+					changed: true,
+				},
+				{
+					from: "user.order",
+					to: "usr.order",
+					fromTemplate: "user:{userId}:order:{region}:{orderId}",
+					toTemplate: "usr:{userId}:order:{orderId}:{region}",
+					changed: true,
+				},
+				{ from: "user.avatar", to: null, fromTemplate: "user:{userId}:avatar", toTemplate: null, changed: true },
+				{ from: "config", to: "config", fromTemplate: "config", toTemplate: "config", changed: false },
+			])
+		})
+
+		it("should migrate an in-memory key list", () => {
+			const stored = ["user:u-1:profile", "user:u-2:order:us:1", "user:u-1:avatar", "config", "session:s-1"]
+
+			expect(migration.migrateKeys(stored)).toEqual({
+				renames: [
+					["user:u-1:profile", "usr:u-1:profile"],
+					["user:u-2:order:us:1", "usr:u-2:order:1:us"],
+				],
+				dropped: ["user:u-1:avatar"],
+				unmatched: ["session:s-1"],
+				failed: [],
+			})
+		})
+
+		it("should migrate leaves whose schema keys contain dots", () => {
+			const dotted = createKeyMigration({
+				from: defaultBuilder({ "a.b": ["x", p("id")] }),
+				to: defaultBuilder({ "a.b": ["y", p("id")] }),
+			})
+			expect(dotted.migrateKeys(["x:1"])).toEqual({ renames: [["x:1", "y:1"]], dropped: [], unmatched: [], failed: [] })
+			expect(dotted.plan()).toMatchObject([{ from: "a.b", to: "a.b", fromTemplate: "x:{id}", toTemplate: "y:{id}" }])
+		})
+
+		it("should report the keys that can't be migrated without aborting the list", () => {
+			const v4 = createKeyBuilder()({
+				user: parameterize(p("userId"), {
+					order: ["order", p.enum("region", ["eu", "us"]), p.number("orderId")],
+				}),
+				config: ["config"],
+			})
+			const strict = createKeyMigration({ from: v1, to: v4, paths: { "user.profile": null, "user.avatar": null } })
+
+			const { renames, failed } = strict.migrateKeys(["user:u-1:order:ap:7", "config", "user:u-2:order:eu:1"])
+			expect(renames).toEqual([])
+			expect(failed).toEqual([{ key: "user:u-1:order:ap:7", error: expect.any(InvalidArgumentError) }])
+			expect(failed[0]?.error).toMatchObject({ placeholder: "region", value: "ap", schemaPath: "user.order" })
+			expect(() => strict.migrateKey("user:u-1:order:ap:7")).toThrow(InvalidArgumentError)
+
+			const ambiguous = defaultBuilder({ a: ["x", p("id")], b: ["x", "profile"] })
+			const same = createKeyMigration({ from: ambiguous, to: ambiguous })
+			expect(same.migrateKeys(["x:profile", "x:u-1"])).toEqual({
+				renames: [],
+				dropped: [],
+				unmatched: [],
+				failed: [{ key: "x:profile", error: expect.any(KeyParseError) }],
+			})
+		})
+
+		it("should map renamed placeholders and validate the declared paths", () => {
+			const v3 = createKeyBuilder({ prefix: "v3" })({ config: ["config"], usr: ["usr", p("accountId"), "profile"] })
+
+			expect(() => createKeyMigration({ from: v1, to: v3, paths: { "user.profile": "usr" } })).toThrow(
+				/Invalid schema at "usr": the key needs "accountId", which keys of "user.profile" don't have/
+			)
+			const renamed = createKeyMigration({
+				from: v1,
+				to: v3,
+				paths: { "user.profile": "usr" },
+				args: (args) => ({ ...args, accountId: args.userId }),
+			})
+			expect(renamed.migrateKey("user:u-1:profile")).toBe("v3:usr:u-1:profile")
+			expect(renamed.migrateKey("config")).toBe("v3:config")
+			expect(renamed.migrateKey("user:u-1:order:eu:7")).toBeNull()
+
+			expect(() => createKeyMigration({ from: v1, to: v2, paths: { account: "usr" } })).toThrow(InvalidSchemaError)
+			expect(() => createKeyMigration({ from: v1, to: v2, paths: { user: "account" } })).toThrow(
+				/"account.profile": the path is not a key of the current schema \(moved from "user.profile"\)/
+			)
+		})
+	})
+
+	describe("Key Types", () => {
+		const keys = defaultBuilder({
+			config: ["config"],
+			product: ["product", p.number("productId"), "stock"],
+			account: ["account", p.enum("status", ["active", "banned"]), p.boolean("verified")],
+			daily: ["stats", p.date("day"), p.uuid("visitorId")],
+			feed: ["feed", optional(p.number("page"))],
+			events: ["events", optional(p("region"), { default: "eu" })],
+			user: parameterize(p("userId"), {
+				profile: defineKey(["profile"], { type: "hash" }),
+				orders: { byId: ["order", p.number("orderId")] },
+			}),
+			tenant: hashTag(parameterize([p("tenantId"), p.number("shard")], { config: ["config"] })),
+		})
+
+		it("should derive template literal types from the definition", () => {
+			expectTypeOf(keys.config()).toEqualTypeOf<"config">()
+			expectTypeOf(keys.product({ productId: 1 })).toEqualTypeOf<`product:${number}:stock`>()
+			expectTypeOf(
+				keys.account({ status: "active", verified: true })
+			).toEqualTypeOf<`account:${"active" | "banned"}:${boolean}`>()
+			expectTypeOf(
+				keys.daily({ day: new Date(), visitorId: crypto.randomUUID() })
+			).toEqualTypeOf<`stats:${string}:${string}`>()
+			expectTypeOf(keys.feed()).toEqualTypeOf<"feed" | `feed:${number}`>()
+			expectTypeOf(keys.events()).toEqualTypeOf<`events:${string}`>()
+			expect(keys.account({ status: "banned", verified: false })).toBe("account:banned:false")
+			expect(keys.feed()).toBe("feed")
+		})
+
+		it("should include path parameters and hash tags of parameterized levels", () => {
+			const user = keys.user({ userId: "u-1" })
+			expectTypeOf(user.orders.byId({ orderId: 7 })).toEqualTypeOf<`user:${string}:orders:order:${number}`>()
+			expectTypeOf(user.profile()).toEqualTypeOf<RedisKey<string, "hash", `user:${string}:profile`>>()
+			expectTypeOf(
+				keys.tenant({ tenantId: "acme", shard: 1 }).config()
+			).toEqualTypeOf<`tenant:{${string}:${number}}:config`>()
+			expect(keys.tenant({ tenantId: "acme", shard: 1 }).config()).toBe("tenant:{acme:1}:config")
+			// Patterns are globs, not keys
+			expectTypeOf(keys.user.pattern().profile.pattern()).toEqualTypeOf<string>()
+			expectTypeOf(keys.product.pattern()).toEqualTypeOf<string>()
+		})
+
+		it("should honor a literal separator and a static prefix", () => {
+			const piped = createKeyBuilder({ separator: "|", prefix: ["app", "v2"] })({
+				user: parameterize(p("userId"), { profile: ["profile"] }),
+			})
+			expectTypeOf(piped.user({ userId: "u-1" }).profile()).toEqualTypeOf<`app|v2|user|${string}|profile`>()
+			expect(piped.user({ userId: "u-1" }).profile()).toBe("app|v2|user|u-1|profile")
+
+			const prefixed = createKeyBuilder({ prefix: "app" })({ product: ["product", p.number("productId")] })
+			expectTypeOf(prefixed.product({ productId: 1 })).toEqualTypeOf<`app:product:${number}`>()
+		})
+
+		it("should fall back to wider types when the key text is only known at runtime", () => {
+			const dynamic = createKeyBuilder({ prefix: () => "tenant" })({ product: ["product", p.number("productId")] })
+			expectTypeOf(dynamic.product({ productId: 1 })).toEqualTypeOf<`${string}product:${number}`>()
+
+			// Escaped values may differ from their type
+			const encoded = createKeyBuilder({ escape: "encode" })({ product: ["product", p.number("productId")] })
+			expectTypeOf(encoded.product({ productId: 1 })).toEqualTypeOf<`product:${string}`>()
+
+			const separator: string = "/"
+			const runtimeSeparator = createKeyBuilder({ separator })({ product: ["product", p.number("productId")] })
+			expectTypeOf(runtimeSeparator.product({ productId: 1 })).toEqualTypeOf<`product${string}${number}`>()
+
+			const scoped = withPrefix(keys, "tenant-1")
+			expectTypeOf(scoped.product({ productId: 1 })).toEqualTypeOf<`${string}product:${number}:stock`>()
+
+			const host = defaultBuilder({ billing: mount(createKeyBuilder({ prefix: "billing" })({ plan: ["plan"] })) })
+			expectTypeOf(host.billing.plan()).toEqualTypeOf<`billing:${string}plan`>()
+			expect(host.billing.plan()).toBe("billing:billing:plan")
+
+			expectTypeOf(merge(keys, host).config()).toEqualTypeOf<string>()
+		})
+
+		it("should let downstream APIs require keys of a schema branch", () => {
+			const loadOrder = (key: `user:${string}:orders:${string}`) => key
+			expect(loadOrder(keys.user({ userId: "u-1" }).orders.byId({ orderId: 7 }))).toBe("user:u-1:orders:order:7")
+			// @ts-expect-error a product key isn't below `user.orders`
+			loadOrder(keys.product({ productId: 1 }))
+			// Keys are still strings
+			expectTypeOf(keys.product({ productId: 1 })).toMatchTypeOf<string>()
+		})
+	})
+
+	describe("Partial Application", () => {
+		const keys = defaultBuilder({
+			tenantResource: parameterize([p("tenantId"), p.number("resourceId", { min: 1 })], {
+				config: ["config"],
+				logs: withTtl(["logs", p("logLevel"), p.number("page")], ({ logLevel }) => ({
+					seconds: logLevel === "debug" ? 60 : 3600,
+				})),
+				usage: defineKey(["usage"], { type: "hash", value: codec.number }),
+			}),
+			stats: ["stats", p("region"), p.number("day"), optional(p("shard"))],
+		})
+
+		it("should bind the path parameters of a level ahead of time", () => {
+			const tenant = keys.tenantResource.with({ tenantId: "acme" })
+			expect(tenant({ resourceId: 7 }).config()).toBe("tenantResource:acme:7:config")
+			expect(tenant.with({ resourceId: 8 })().config()).toBe("tenantResource:acme:8:config")
+			expect(tenant.pattern().config()).toBe("tenantResource:acme:*:config")
+
+			expectTypeOf(tenant).parameter(0).toEqualTypeOf<{ resourceId: number }>()
+			expectTypeOf(tenant.with({ resourceId: 8 })).parameters.toEqualTypeOf<[]>()
+			expectTypeOf(tenant({ resourceId: 7 }).config()).toEqualTypeOf<`tenantResource:${string}:${number}:config`>()
+			// @ts-expect-error the tenant is already bound
+			tenant({ tenantId: "other", resourceId: 7 })
+		})
+
+		it("should bind leaf placeholders ahead of time", () => {
+			const errors = keys.tenantResource({ tenantId: "acme", resourceId: 7 }).logs.with({ logLevel: "error" })
+			expect(errors({ page: 2 })).toBe("tenantResource:acme:7:logs:error:2")
+			expect(errors.pattern()).toBe("tenantResource:acme:7:logs:error:*")
+			expect(errors.ttl({ page: 1 })).toBe(3_600_000)
+			expectTypeOf(errors).parameter(0).toEqualTypeOf<{ page: number }>()
+			expectTypeOf(errors({ page: 2 })).toEqualTypeOf<`tenantResource:${string}:${number}:logs:${string}:${number}`>()
+
+			const today = keys.stats.with({ region: "eu" }).with({ day: 20240105 })
+			expect(today()).toBe("stats:eu:20240105")
+			expect(today({ shard: "a" })).toBe("stats:eu:20240105:a")
+			expectTypeOf(today).parameter(0).toEqualTypeOf<{ shard?: string } | undefined>()
+
+			// Typed leaves keep their value metadata
+			const usage = keys.tenantResource.with({ tenantId: "acme" })({ resourceId: 7 }).usage.with({})
+			expect(usage.redisType).toBe("hash")
+			expect(usage.codec).toBe(codec.number)
+			expectTypeOf(usage()).toMatchTypeOf<RedisKey<number, "hash">>()
+		})
+
+		it("should validate bound values right away", () => {
+			expect(() => keys.tenantResource.with({ resourceId: 0 })).toThrow(InvalidArgumentError)
+			// @ts-expect-error testing the runtime check
+			expect(() => keys.stats.with({ day: "monday" })).toThrow(/Invalid value "monday" for placeholder "day"/)
+		})
+	})
+
+	describe("Batches", () => {
+		const keys = defaultBuilder({
+			product: ["product", p.number("productId", { integer: true })],
+			user: parameterize(p("userId"), { profile: ["profile"], order: ["order", p.number("orderId")] }),
+		})
+
+		it("should build the keys of a batch of arguments", () => {
+			const productKeys = keys.product.many([{ productId: 1 }, { productId: 2 }])
+			expect(productKeys).toEqual(["product:1", "product:2"])
+			expectTypeOf(productKeys).toEqualTypeOf<Array<`product:${number}`>>()
+			expect(keys.product.many([])).toEqual([])
+
+			const users = keys.user.many([{ userId: "u-1" }, { userId: "u-2" }])
+			expect(users.map((user) => user.profile())).toEqual(["user:u-1:profile", "user:u-2:profile"])
+			expect(
+				keys
+					.user({ userId: "u-1" })
+					.order.with({})
+					.many([{ orderId: 7 }])
+			).toEqual(["user:u-1:order:7"])
+			expect(keys.user.with({ userId: "u-3" }).many([{}])[0]?.profile()).toBe("user:u-3:profile")
+		})
+
+		it("should throw the first error, or collect them", () => {
+			const argsList = [{ productId: 1 }, { productId: 1.5 }, { productId: 3 }, {} as { productId: number }]
+			expect(() => keys.product.many(argsList)).toThrow(InvalidArgumentError)
+
+			const batch = keys.product.many(argsList, { collectErrors: true })
+			expectTypeOf(batch).toEqualTypeOf<BatchResult<`product:${number}`>>()
+			expect(batch.results).toEqual(["product:1", undefined, "product:3", undefined])
+			expect(batch.errors.map(({ index }) => index)).toEqual([1, 3])
+			expect(batch.errors[0]?.error).toBeInstanceOf(InvalidArgumentError)
+			expect(batch.errors[1]?.error).toBeInstanceOf(MissingArgumentError)
+
+			// @ts-expect-error testing the runtime check
+			expect(() => keys.product.many({ productId: 1 })).toThrow(/many expects an array of arguments/)
+		})
+
+		it("should build the same keys as single calls", () => {
+			const shapes = createKeyBuilder({ prefix: ["app", "v1"], separator: "/", maxKeyLength: 32 })({
+				feed: ["feed", p("userId"), optional(p.number("page"))],
+				shard: ["shard", hashTag(p("shardId")), p("name")],
+				tenant: parameterize(p("tenantId"), { config: ["config", "main"], item: [p("itemId")] }),
+			})
+			const feedArgs = [{ userId: "u-1" }, { userId: "u-2", page: 3 }, { userId: "u".repeat(30) }]
+			const feed = shapes.feed.many(feedArgs, { collectErrors: true })
+			expect(feed.results).toEqual(["app/v1/feed/u-1", "app/v1/feed/u-2/3", undefined])
+			expect(feed.errors[0]?.error).toBeInstanceOf(KeyLengthError)
+			expect(shapes.shard.many([{ shardId: "s", name: "n" }])).toEqual(["app/v1/shard/{s}/n"])
+			const tenant = shapes.tenant({ tenantId: "t-1" })
+			expect(tenant.config.many([{}, {}])).toEqual(["app/v1/tenant/t-1/config/main", "app/v1/tenant/t-1/config/main"])
+			expect(tenant.item.with({ itemId: "i-0" }).many([{}, { itemId: "i-1" }])).toEqual([
+				"app/v1/tenant/t-1/i-0",
+				"app/v1/tenant/t-1/i-1",
+			])
+		})
+
+		it("should evaluate a dynamic prefix once per batch", () => {
+			let evaluations = 0
+			const scoped = withPrefix(keys, () => {
+				evaluations++
+				return "tenant"
+			})
+			expect(scoped.product.many([{ productId: 1 }, { productId: 2 }, { productId: 3 }])).toEqual([
+				"tenant:product:1",
+				"tenant:product:2",
+				"tenant:product:3",
+			])
+			expect(evaluations).toBe(1)
+		})
+	})
+
+	describe("Pub/Sub Channels", () => {
+		const keys = defaultBuilder({
+			order: parameterize(p.number("orderId", { integer: true }), {
+				status: ["status"],
+				events: defineChannel(["events", p.enum("type", ["created", "shipped"])], {
+					message: codec.json<{ at: number }>(),
+				}),
+			}),
+			chat: defineChannel(["chat", p("room")]),
+		})
+
+		it("should build typed channel names and PSUBSCRIBE patterns", () => {
+			const channel = keys.order({ orderId: 42 }).events({ type: "shipped" })
+			expect(channel).toBe("order:42:events:shipped")
+			expectTypeOf(channel).toEqualTypeOf<
+				RedisChannel<{ at: number }, `order:${number}:events:${"created" | "shipped"}`>
+			>()
+			expect(keys.order.pattern().events.pattern()).toBe("order:*:events:*")
+			expect(keys.order({ orderId: 42 }).events.pattern()).toBe("order:42:events:*")
+			expect(keys.chat({ room: "lobby" })).toBe("chat:lobby")
+			expect(keys.chat.channel).toBe(true)
+			expect(keys.chat.codec).toBe(codec.string)
+		})
+
+		it("should decode the channel of a message received on a pattern subscription", () => {
+			const pubsub = createMemoryPubSub()
+			const received: unknown[] = []
+			pubsub.psubscribe(keys.order.pattern().events.pattern(), (message, channel) => {
+				const parsed = parseChannel(keys, channel)
+				if (parsed?.id === "order.events") {
+					expectTypeOf(parsed.args).toEqualTypeOf<{ orderId: number; type: "created" | "shipped" }>()
+					received.push({ ...parsed.args, message: keys.order(parsed.args).events.codec.decode(message) })
+				}
+			})
+
+			const events = keys.order({ orderId: 7 }).events
+			expect(pubsub.publish(events({ type: "created" }), events.codec.encode({ at: 1 }))).toBe(1)
+			expect(pubsub.publish(keys.order({ orderId: 7 }).status(), "ignored")).toBe(0)
+			expect(pubsub.publish(keys.chat({ room: "lobby" }), "hi")).toBe(0)
+			expect(received).toEqual([{ orderId: 7, type: "created", message: { at: 1 } }])
+		})
+
+		it("should keep channels apart from keys", () => {
+			expect(parseChannel(keys, "chat:lobby")).toEqual({ id: "chat", path: ["chat"], args: { room: "lobby" } })
+			expect(parseChannel(keys, "order:7:status")).toBeNull()
+			expect(parseKey(keys, "chat:lobby")).toBeNull()
+			expect(parseKey(keys, "order:7:status")?.id).toBe("order.status")
+			expect(findKeysWithoutTtl(keys)).toEqual(["order.status"])
+			expect(describeSchema(keys).find((key) => key.id === "chat")).toMatchObject({
+				channel: true,
+				codec: codec.string,
+			})
+			expect(() => withTtl(defineChannel(["chat"]) as never, { seconds: 1 })).toThrow(/channels don't expire/)
+			expect(() =>
+				parseChannel(defaultBuilder({ a: defineChannel(["x", p("id")]), b: defineChannel(["x", "all"]) }), "x:all")
+			).toThrow(/the channel is ambiguous/)
+		})
+	})
+
+	describe("Key Length Limits", () => {
+		const schema = {
+			search: ["search", p("query"), p("locale")],
+			item: ["item", p.number("itemId")],
+			user: parameterize(p("userId"), { profile: ["profile"] }),
+			shard: ["shard", hashTag(p("shardId")), p("name")],
+		} as const
+		const digest = (value: string) => createHash("sha1").update(value).digest("hex").slice(0, 16)
+
+		it("should throw on keys and segments over the limits", () => {
+			const keys = createKeyBuilder({ maxKeyLength: 24, maxSegmentLength: { query: 12 } })(schema)
+			expect(keys.search({ query: "redis", locale: "en" })).toBe("search:redis:en")
+
+			let error: unknown
+			try {
+				keys.search({ query: "q".repeat(13), locale: "en" })
+			} catch (thrown) {
+				error = thrown
+			}
+			expect(error).toBeInstanceOf(KeyLengthError)
+			expect(error).toMatchObject({ placeholder: "query", schemaPath: "search", length: 13, limit: 12 })
+			expect(() => keys.search({ query: "q".repeat(12), locale: "en-GB-oxendict" })).toThrow(
+				/Key built by "search:query:locale" is 34 characters long, the limit is 24/
+			)
+			// Limits by name leave other placeholders alone, patterns aren't keys
+			expect(keys.user({ userId: "u".repeat(20) }).profile.pattern()).toBe(`user:${"u".repeat(20)}:profile`)
+			expect(() => createKeyBuilder({ maxSegmentLength: 8 })(schema).user({ userId: "u".repeat(9) })).toThrow(
+				KeyLengthError
+			)
+		})
+
+		it("should warn and keep over-long keys", () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+			try {
+				const keys = createKeyBuilder({ maxKeyLength: 10, onLengthExceeded: "warn" })(schema)
+				expect(keys.item({ itemId: 1234567 })).toBe("item:1234567")
+				expect(warn).toHaveBeenCalledWith(
+					'[RedisKeyBuilder] Key built by "item:itemId" is 12 characters long, the limit is 10.'
+				)
+			} finally {
+				warn.mockRestore()
+			}
+		})
+
+		it("should hash over-long segments into stable digests", () => {
+			const query = "a very long search query typed by a user".repeat(5)
+			const segments = createKeyBuilder({ maxSegmentLength: { query: 32, name: 8 }, onLengthExceeded: "hash" })(schema)
+			expect(segments.search({ query, locale: "en" })).toBe(`search:${digest(query)}:en`)
+			expect(segments.search({ query, locale: "en" })).toBe(segments.search({ query, locale: "en" }))
+			expect(segments.search.pattern({ query })).toBe(`search:${digest(query)}:*`)
+			// Digests are cut down to the segment limit when it is shorter
+			expect(segments.shard({ shardId: "s1", name: "abcdefghi" })).toBe(`shard:{s1}:${digest("abcdefghi").slice(0, 8)}`)
+
+			// Over-long keys get their longest (non hash tag) placeholder segments hashed until they fit
+			const whole = createKeyBuilder({ maxKeyLength: 60, onLengthExceeded: "hash" })(schema)
+			expect(whole.search({ query, locale: "x".repeat(30) })).toBe(`search:${digest(query)}:${"x".repeat(30)}`)
+			expect(whole.search({ query, locale: "y".repeat(60) })).toBe(`search:${digest(query)}:${digest("y".repeat(60))}`)
+			expect(() => whole.shard({ shardId: "s".repeat(60), name: "n" })).toThrow(KeyLengthError)
+			// Path parameters are hashed too, the user input usually goes there
+			const tenantId = "t".repeat(50)
+			const tenants = createKeyBuilder({ prefix: "app", maxKeyLength: 40, onLengthExceeded: "hash" })({
+				tenant: parameterize(p("tid"), { profile: ["profile"], item: ["item", p("itemId")] }),
+			})
+			expect(tenants.tenant({ tid: tenantId }).profile()).toBe(`app:tenant:${digest(tenantId)}:profile`)
+			expect(tenants.tenant({ tid: tenantId }).item({ itemId: "i-1" })).toBe(`app:tenant:${digest(tenantId)}:item:i-1`)
+			expect(tenants.tenant({ tid: "t-1" }).profile()).toBe("app:tenant:t-1:profile")
+
+			// Hashing may replace any value, so keys aren't typed from the placeholder kinds anymore
+			expectTypeOf(whole.item({ itemId: 1 })).toEqualTypeOf<`item:${string}`>()
+			expectTypeOf(createKeyBuilder({ maxKeyLength: 60 })(schema).item({ itemId: 1 })).toEqualTypeOf<`item:${number}`>()
+		})
+
+		it("should reject invalid limits", () => {
+			expect(() => createKeyBuilder({ maxKeyLength: 0 })).toThrow(/maxKeyLength must be a positive integer, got 0/)
+			expect(() => createKeyBuilder({ maxSegmentLength: { query: 1.5 } })).toThrow(
+				/maxSegmentLength.query must be a positive integer/
+			)
+		})
+	})
 })
@@ -1,34 +1,194 @@
+import { getHashTag } from "./cluster"
+import { sha1Hex } from "./sha1"
+
+export { getHashTag, keySlot } from "./cluster"
+
 // --- Core Types ---
 
-/** Represents the basic types allowed for key placeholders */
-type Primitive = string | number | boolean
+/** Runtime tag describing which kind of value a placeholder holds (used for validation and introspection) */
+type PlaceholderKind = "string" | "number" | "boolean" | "enum" | "date" | "uuid" | "custom"
+
+/** Precision of a `p.date` placeholder; the key holds the (UTC) date truncated to it */
+type DateGranularity = "year" | "month" | "day" | "hour" | "minute" | "second"
 
 /** Internal marker symbol for placeholders (ensures nominal typing) */
 // declare const placeholderSymbol: unique symbol;
 
-const runtimePlaceholderSymbol = Symbol("redisKeyPlaceholder")
-const runtimeParameterizedSymbol = Symbol("redisKeyParameterized")
+// Registered symbols, so schemas built by the CJS and ESM builds (or two copies of the package) recognize each other
+const runtimePlaceholderSymbol = Symbol.for("redis-fluent-keys/placeholder")
+const runtimeParameterizedSymbol = Symbol.for("redis-fluent-keys/parameterized")
+const runtimeSchemaSymbol = Symbol.for("redis-fluent-keys/schema")
+const runtimeTypedKeySymbol = Symbol.for("redis-fluent-keys/typed-key")
+const runtimeTtlSymbol = Symbol.for("redis-fluent-keys/ttl")
+const runtimeMountSymbol = Symbol.for("redis-fluent-keys/mount")
+const runtimeChannelSymbol = Symbol.for("redis-fluent-keys/channel")
 
 /**
  * Represents a placeholder in a key definition.
  * Captures the expected type `T` and the placeholder's `Name`.
- * @template T The primitive type (string, number, boolean) of the placeholder's value.
+ * @template T The type of the placeholder's value (a primitive, an enum literal union, a `Date`, a custom type).
  * @template Name The literal string type of the name
+ * @template Kind The kind of placeholder (`p.number` placeholders render as `${number}` in key types, ...)
  */
-type Placeholder<T extends Primitive, Name extends string> = {
+type Placeholder<T, Name extends string, Kind extends PlaceholderKind = PlaceholderKind> = {
 	readonly [runtimePlaceholderSymbol]: true // Unique marker for type safety
 	readonly _type: T // Stores the expected type T (used only for type inference, hence the '_')
 	readonly _name: Name // Stores the placeholder name literal type (used at runtime)
+	readonly _kind: Kind // Runtime counterpart of T, used for validation and introspection
+	readonly _codec: ValueCodec<T> // Converts values to key segments and back (decoding throws on foreign segments)
+	readonly _hashTag?: true // Set by `hashTag(...)`: the segment is wrapped in `{...}`
+	readonly _constraints?: PlaceholderConstraints // Checked at runtime on every value (and when parsing keys)
+	readonly _optional?: true // Set by `optional(...)`: the argument may be left out
+	readonly _default?: T // Set by `optional(..., { default })`: rendered when the argument is left out
+	/** Turns a key segment back into the typed value; throws if this placeholder couldn't have produced it */
+	readonly decode: (segment: string) => T
+}
+
+/** Runtime constraints for `p(...)` values */
+interface StringConstraints {
+	/** Maximum number of characters */
+	readonly maxLength?: number
+	/** The value must match this regular expression (anchor it with `^...$` to match the whole value) */
+	readonly pattern?: RegExp
+	/** The value must be one of these literals */
+	readonly oneOf?: ReadonlyArray<string>
+}
+
+/** Runtime constraints for `p.number(...)` values */
+interface NumberConstraints {
+	readonly integer?: boolean
+	/** Inclusive lower bound */
+	readonly min?: number
+	/** Inclusive upper bound */
+	readonly max?: number
+	/** The value must be one of these literals */
+	readonly oneOf?: ReadonlyArray<number>
 }
 
+type PlaceholderConstraints = StringConstraints | NumberConstraints
+
 /** Represents a part of a key definition: either a static string or a typed Placeholder */
-type KeyDefinitionPart<T extends Primitive = Primitive, Name extends string = string> = string | Placeholder<T, Name>
+type KeyDefinitionPart<T = any, Name extends string = string> = string | Placeholder<T, Name>
 
 /**
  * Defines the structure of a single Redis key segment as an ordered array of parts.
  */
 type KeyDefinition = ReadonlyArray<KeyDefinitionPart>
 
+// --- Typed Values ---
+
+/** Redis data types a key can hold */
+export type RedisDataType = "string" | "hash" | "set" | "zset" | "list" | "stream" | "json"
+
+/**
+ * Converts values stored under a key from/to their Redis string representation.
+ * What a "value" is depends on the data type: the whole value for `string`/`json`,
+ * a field value for `hash`/`stream` and a member for `set`/`zset`/`list`.
+ */
+export interface ValueCodec<TValue> {
+	encode: (value: TValue) => string
+	decode: (raw: string) => TValue
+	/** Shown in key catalogs, e.g. `"json"` (the built-in codecs are named after their key in `codec`) */
+	name?: string
+}
+
+/** Phantom brand carried by keys built from a `defineKey` leaf (type-level only) */
+declare const redisKeyBrand: unique symbol
+
+/**
+ * A key built by a typed leaf: still a plain `string` at runtime, but remembers
+ * which value type and Redis data type live under it.
+ * `TKey` narrows the key text, e.g. `` RedisKey<number, "string", `product:${number}:stock`> ``.
+ */
+export type RedisKey<TValue, TRedisType extends RedisDataType, TKey extends string = string> = TKey & {
+	readonly [redisKeyBrand]: { readonly value: TValue; readonly redisType: TRedisType }
+}
+
+/**
+ * A leaf definition with value metadata attached, created by `defineKey`.
+ * @template D The key definition (same as a plain leaf array)
+ * @template TValue The type of the values stored under the key
+ * @template TRedisType The Redis data type of the key
+ */
+type TypedKeyDefinition<D extends KeyDefinition, TValue, TRedisType extends RedisDataType> = {
+	readonly [runtimeTypedKeySymbol]: true
+	readonly _definition: D
+	readonly _redisType: TRedisType
+	readonly _codec: ValueCodec<TValue>
+}
+
+// --- Pub/Sub Channels ---
+
+/** Phantom brand carried by channel names built from a `defineChannel` leaf (type-level only) */
+declare const redisChannelBrand: unique symbol
+
+/**
+ * A Pub/Sub channel name built by a `defineChannel` leaf: still a plain `string` at runtime,
+ * but remembers the type of the messages published on it.
+ */
+export type RedisChannel<TMessage, TName extends string = string> = TName & {
+	readonly [redisChannelBrand]: { readonly message: TMessage }
+}
+
+/**
+ * A leaf naming Pub/Sub channels instead of keys, created by `defineChannel`.
+ * @template D The channel definition (same as a plain leaf array)
+ * @template TMessage The type of the messages published on the channel
+ */
+type ChannelDefinition<D extends KeyDefinition, TMessage> = {
+	readonly [runtimeChannelSymbol]: true
+	readonly _definition: D
+	readonly _codec: ValueCodec<TMessage>
+}
+
+// --- Key Expiry ---
+
+/** A time to live, in seconds (fractions allowed) or in milliseconds */
+type TtlDuration = { readonly seconds: number } | { readonly ms: number }
+
+/**
+ * A fixed TTL, or one computed from the key's arguments.
+ * Computed policies receive every argument of the key, path parameters of enclosing levels included.
+ */
+type TtlPolicy<A = Readonly<Record<string, unknown>>> = TtlDuration | ((args: A) => TtlDuration)
+
+/** Marker carried by schema nodes wrapped in `withTtl(...)` */
+type WithTtl = { readonly [runtimeTtlSymbol]: TtlPolicy<any> }
+
+/** Schema nodes a TTL can be attached to: leaves, `parameterize` levels and static nested levels */
+type TtlTarget = KeyDefinition | TypedKeyDefinition<any, any, any> | Parameterized<any, any> | NestedSchema
+
+// Arguments known for sure when a policy is attached to `T` (a level's policy also sees the arguments of the keys below)
+type TtlArgs<T extends TtlTarget> = Readonly<Record<string, unknown>> &
+	(T extends KeyDefinition
+		? Args<T>
+		: T extends TypedKeyDefinition<infer D, any, any>
+			? Args<D>
+			: T extends Parameterized<infer P, any>
+				? Args<P>
+				: {})
+
+// --- Batches ---
+
+/** Options of `.many(...)` */
+interface BatchOptions {
+	/** Collect the errors of failing items instead of throwing the first one */
+	readonly collectErrors?: boolean
+}
+
+/** Outcome of a batch built with `collectErrors: true` */
+export interface BatchResult<T> {
+	/** One entry per item, in order (`undefined` where the item failed) */
+	readonly results: Array<T | undefined>
+	readonly errors: Array<{ readonly index: number; readonly error: RedisKeyBuilderError }>
+}
+
+// `.many(...)` of a builder taking arguments of type `A` and returning `T`
+type BatchBuilder<A, T> = {
+	(argsList: ReadonlyArray<A>, options?: BatchOptions & { readonly collectErrors?: false }): T[]
+	(argsList: ReadonlyArray<A>, options: BatchOptions & { readonly collectErrors: true }): BatchResult<T>
+}
+
 // --- Parameterization Marker ---
 
 /** Internal marker symbol for parameterized levels */
@@ -44,6 +204,7 @@ type Parameterized<P extends Placeholder<any, any> | ReadonlyArray<Placeholder<a
 	readonly [runtimeParameterizedSymbol]: true
 	readonly _placeholders: P
 	readonly _schema: S
+	readonly _hashTag?: true // Set by `hashTag(...)`: the path parameters are wrapped in a single `{...}`
 }
 
 // --- Recursive Schema Type
@@ -51,11 +212,18 @@ type Parameterized<P extends Placeholder<any, any> | ReadonlyArray<Placeholder<a
 /**
  * Represents the user-defined schema structure. Can contain:
  * - `KeyDefinition` arrays for leaf nodes (final key builders).
+ * - `TypedKeyDefinition` objects (`defineKey`) for leaf nodes with value metadata.
+ * - `ChannelDefinition` objects (`defineChannel`) for leaf nodes naming Pub/Sub channels.
  * - Other `NestedSchema` objects for static nesting.
  * - `Parameterized` objects for levels requiring path parameters.
  */
 interface NestedSchema {
-	readonly [key: string]: KeyDefinition | NestedSchema | Parameterized<any, any>
+	readonly [key: string]:
+		| KeyDefinition
+		| TypedKeyDefinition<any, any, any>
+		| ChannelDefinition<any, any>
+		| NestedSchema
+		| Parameterized<any, any>
 }
 
 // --- Advanced Type Utilities ---
@@ -78,11 +246,16 @@ type FilterPlaceholders<D extends KeyDefinition | Placeholder<any, any> | Readon
 type UnionToIntersection<U> = (U extends any ? (k: U) => void : never) extends (k: infer I) => void ? I : never
 
 // Converts a union of Placeholders into an intersection object mapping name to type
+// (`optional(...)` placeholders become optional properties)
 type PlaceholdersToObject<P extends Placeholder<any, any>> = UnionToIntersection<
 	P extends Placeholder<infer T, infer N>
-		? {
-				[K in N]: T
-			}
+		? P extends OptionalMarker
+			? {
+					[K in N]?: T
+				}
+			: {
+					[K in N]: T
+				}
 		: never
 >
 
@@ -97,57 +270,580 @@ type Args<D extends KeyDefinition | Placeholder<any, any> | ReadonlyArray<Placeh
 
 // Builder function type for a leaf node (KeyDefinition)
 // Uses conditional type to determine signature based on Args<D>
-type LeafBuilderFunction<D extends KeyDefinition> = keyof Args<D> extends never
-	? () => string // No args needed
-	: (args: Args<D>) => string // Args object required
+type LeafBuilderSignature<D extends KeyDefinition, TResult> = keyof Args<D> extends never
+	? () => TResult // No args needed
+	: {} extends Args<D>
+		? (args?: Args<D>) => TResult // Only optional placeholders, the args object itself is optional
+		: (args: Args<D>) => TResult // Args object required
+
+// Leaf builder plus its glob form, where every placeholder is optional, its TTL and partial application
+// (`TMeta` holds what a builder exposes besides, kept by `.with`)
+type LeafBuilderFunction<D extends KeyDefinition, TKey extends string = string, TMeta = {}> = LeafBuilderSignature<
+	D,
+	TKey
+> &
+	TMeta & {
+		/** Builds a glob pattern instead: omitted placeholders become `*`, literal text is glob-escaped */
+		readonly pattern: (args?: Partial<Args<D>>) => string
+		/** Resolves the key's TTL in milliseconds (own or inherited `withTtl` policy), `undefined` if it has none */
+		readonly ttl: LeafBuilderSignature<D, number | undefined>
+		/** Builds the keys of a batch of arguments, with the prefix evaluated once */
+		readonly many: BatchBuilder<Args<D>, TKey>
+		/** Binds some of the arguments ahead of time: the returned builder only takes the others */
+		readonly with: <B extends Partial<Args<D>>>(
+			args: B
+		) => LeafBuilderFunction<WithoutPlaceholders<D, keyof B>, TKey, TMeta>
+	}
+
+// Builder for a `defineKey` leaf: returns a typed key handle and exposes the value metadata
+type TypedLeafBuilderFunction<
+	D extends KeyDefinition,
+	TValue,
+	TRedisType extends RedisDataType,
+	TKey extends string = string,
+> = LeafBuilderFunction<
+	D,
+	RedisKey<TValue, TRedisType, TKey>,
+	{
+		readonly redisType: TRedisType
+		readonly codec: ValueCodec<TValue>
+	}
+>
+
+// Builder for a `defineChannel` leaf: returns a typed channel name, `.pattern` builds `PSUBSCRIBE` patterns
+type ChannelBuilderFunction<D extends KeyDefinition, TMessage, TName extends string = string> = LeafBuilderFunction<
+	D,
+	RedisChannel<TMessage, TName>,
+	{
+		readonly channel: true
+		readonly codec: ValueCodec<TMessage>
+	}
+>
+
+// Drops the placeholders named `Names` from a definition or from path parameters (bound by `.with`)
+type WithoutPlaceholders<Parts, Names extends PropertyKey> = Parts extends ReadonlyArray<unknown>
+	? FilterPlaceholderParts<DefinitionParts<Parts>, Names>
+	: Parts extends Placeholder<any, infer N> // A single path parameter
+		? N extends Names
+			? readonly []
+			: Parts
+		: Parts
+
+type FilterPlaceholderParts<Parts, Names extends PropertyKey> = Parts extends readonly [infer Head, ...infer Rest]
+	? Head extends Placeholder<any, infer N>
+		? N extends Names
+			? FilterPlaceholderParts<Rest, Names>
+			: readonly [Head, ...FilterPlaceholderParts<Rest, Names>]
+		: readonly [Head, ...FilterPlaceholderParts<Rest, Names>]
+	: Parts
+
+// The parts of a definition as a plain tuple: `withTtl` leaves are intersections, which tuple inference can't see through
+type DefinitionParts<
+	D extends ReadonlyArray<unknown>,
+	Parts extends ReadonlyArray<unknown> = readonly [],
+> = number extends D["length"]
+	? D // Not a tuple
+	: Parts["length"] extends D["length"]
+		? Parts
+		: DefinitionParts<D, readonly [...Parts, D[Parts["length"]]]>
 
 // Function signature for accessing a parameterized level
-type ParameterizingFunction<
+type ParameterizingSignature<
 	P extends Placeholder<any, any> | ReadonlyArray<Placeholder<any, any>>,
 	S extends NestedSchema,
+	F extends KeyFormat = any,
 > = keyof Args<P> extends never // Check if path parameters are actually defined
-	? () => KeyBuilderResult<S> // Should not happen with `parameterize`, but safe to include
-	: (args: Args<P>) => KeyBuilderResult<S> // Requires args for path params
+	? () => KeyBuilderResult<S, F> // Should not happen with `parameterize`, but safe to include
+	: {} extends Args<P>
+		? (args?: Args<P>) => KeyBuilderResult<S, F> // Only defaulted path params
+		: (args: Args<P>) => KeyBuilderResult<S, F> // Requires args for path params
+
+// Parameterizing function plus its pattern mode, where every path parameter is optional
+// (keys built in pattern mode are globs, typed as plain strings)
+type ParameterizingFunction<
+	P extends Placeholder<any, any> | ReadonlyArray<Placeholder<any, any>>,
+	S extends NestedSchema,
+	F extends KeyFormat = any,
+> = ParameterizingSignature<P, S, F> & {
+	/** Accesses the level in pattern mode: omitted path parameters become `*`, every key below is a glob */
+	readonly pattern: (args?: Partial<Args<P>>) => KeyBuilderResult<S>
+	/** Accesses the level for a batch of path parameters */
+	readonly many: BatchBuilder<Args<P>, KeyBuilderResult<S, F>>
+	/** Binds some of the path parameters ahead of time: the returned function only takes the others */
+	readonly with: <B extends Partial<Args<P>>>(args: B) => ParameterizingFunction<WithoutPlaceholders<P, keyof B>, S, F>
+}
 
 // --- Recursive Result Type ---
 
 /**
  * The final, deeply-typed result object mirroring the input schema.
  * Leaf nodes (`KeyDefinition`) are replaced by `LeafBuilderFunction`.
+ * Typed leaf nodes (`TypedKeyDefinition`) are replaced by `TypedLeafBuilderFunction`.
  * Parameterized nodes (`Parameterized`) are replaced by `ParameterizingFunction`.
  * Static nested nodes (`NestedSchema`) are recursively processed.
+ * With a key format `F`, builders return the key as a template literal type (`` `user:${string}:profile` ``),
+ * without one (`any`) they return `string`.
+ */
+type KeyBuilderResult<S extends NestedSchema, F extends KeyFormat = any> = {
+	readonly [K in keyof S & string]: S[K] extends KeyDefinition // Leaf Node check
+		? LeafBuilderFunction<S[K], LeafKeyText<S[K], LevelFormat<S, F>>>
+		: S[K] extends TypedKeyDefinition<infer D, infer TValue, infer TRedisType> // Typed Leaf Node check
+			? TypedLeafBuilderFunction<D, TValue, TRedisType, LeafKeyText<D, LevelFormat<S, F>>>
+			: S[K] extends ChannelDefinition<infer D, infer TMessage> // Channel Leaf Node check
+				? ChannelBuilderFunction<D, TMessage, LeafKeyText<D, LevelFormat<S, F>>>
+				: S[K] extends Parameterized<infer P, infer SubSchema> // Parameterized Node check
+					? ParameterizingFunction<P, SubSchema, ParameterizedLevelFormat<S[K], P, K, LevelFormat<S, F>>>
+					: S[K] extends NestedSchema // Static Nested Node check
+						? KeyBuilderResult<S[K], NestedFormat<LevelFormat<S, F>, `${K}${LevelFormat<S, F>["separator"]}`>>
+						: never // Catch-all for invalid schema types (satisfies noImplicitReturns)
+}
+
+// --- Key Text Types ---
+
+/**
+ * What the key types of a schema level are derived from (type-level only).
+ * `any` stands for an unknown format, whose keys are typed as `string`.
+ */
+interface KeyFormat {
+	readonly separator: string
+	/** Key text in front of the level's keys, e.g. `` `app:user:${string}:` `` (empty at an unprefixed root) */
+	readonly path: string
+	/** Placeholder values are inserted as they are (escape policy `"none"` or `"reject"`, over-long values aren't hashed) */
+	readonly verbatim: boolean
+}
+
+/** Marker carried by schemas returned by `mount`: the mounted schema's key prefix */
+type MountedSchema = { readonly [runtimeMountSymbol]: ReadonlyArray<string> }
+
+// Format of a level nested below `F` with the key text `Text` in between
+type NestedFormat<F extends KeyFormat, Text extends string> = 0 extends 1 & F
+	? any
+	: { readonly separator: F["separator"]; readonly path: `${F["path"]}${Text}`; readonly verbatim: F["verbatim"] }
+
+// A mounted schema's keys start with its prefix, only known at runtime (either empty or ending with a separator)
+type LevelFormat<S extends NestedSchema, F extends KeyFormat> = S extends MountedSchema ? NestedFormat<F, string> : F
+
+// Format below a `parameterize` level: its key, then the path parameters (in a single `{...}` when hash-tagged)
+type ParameterizedLevelFormat<
+	Level,
+	P extends Placeholder<any, any> | ReadonlyArray<Placeholder<any, any>>,
+	K extends string,
+	F extends KeyFormat,
+> = 0 extends 1 & F
+	? any
+	: NestedFormat<
+			F,
+			`${K}${F["separator"]}${Level extends HashTagged
+				? `{${PathParametersText<P, F>}}`
+				: PathParametersText<P, F>}${F["separator"]}`
+		>
+
+// Key text of the path parameters of a level, joined by the separator
+type PathParametersText<P, F extends KeyFormat> = P extends readonly [infer Head]
+	? PartText<Head, F>
+	: P extends readonly [infer Head, ...infer Rest]
+		? `${PartText<Head, F>}${F["separator"]}${PathParametersText<Rest, F>}`
+		: P extends ReadonlyArray<any>
+			? string
+			: PartText<P, F>
+
+// Key text of a placeholder value: exact for numbers, booleans and enums, any string for the others
+// (and for every placeholder when values are escaped, encoding may change them)
+type PlaceholderText<Part, F extends KeyFormat> = F["verbatim"] extends true
+	? Part extends Placeholder<infer T, any, infer Kind>
+		? Kind extends "number"
+			? `${number}`
+			: Kind extends "boolean"
+				? `${boolean}`
+				: Kind extends "enum"
+					? T & string
+					: string
+		: string
+	: string
+
+// Key text of a definition part: static text as is, placeholders as their values (wrapped in `{...}` when hash-tagged)
+type PartText<Part, F extends KeyFormat> = Part extends string
+	? Part
+	: Part extends HashTagged
+		? `{${PlaceholderText<Part, F>}}`
+		: PlaceholderText<Part, F>
+
+/** Stands for the parts of a definition that were left out (trailing optional placeholders without default) */
+declare const omittedParts: unique symbol
+
+// Every key text a definition renders to, joined by the separator; `typeof omittedParts` when no part is left
+type DefinitionText<D, F extends KeyFormat> = D extends readonly [infer Head, ...infer Rest]
+	?
+			| JoinPartText<PartText<Head, F>, DefinitionText<Rest, F>, F["separator"]>
+			| (Head extends OptionalMarker ? (Head extends DefaultMarker ? never : typeof omittedParts) : never)
+	: D extends readonly []
+		? typeof omittedParts
+		: string // Not a tuple, the parts are unknown
+
+// Joins a part with every text the parts after it may render to (distributes over `Rest`)
+type JoinPartText<Head extends string, Rest, Separator extends string> = Rest extends string
+	? `${Head}${Separator}${Rest}`
+	: Head
+
+// Drops the separator closing a level path (the key of a leaf rendering no part at all)
+type TrimSeparator<Path extends string, Separator extends string> = string extends Separator
+	? string
+	: Path extends `${infer Head}${Separator}`
+		? Head
+		: Path
+
+// The key a leaf builds, as a template literal type (`string` for an unknown format)
+type LeafKeyText<D extends KeyDefinition, F extends KeyFormat> = 0 extends 1 & F
+	? string
+	: DefinitionText<DefinitionParts<D>, F> extends infer Text
+		? Text extends string
+			? `${F["path"]}${Text}`
+			: TrimSeparator<F["path"], F["separator"]>
+		: never
+
+// Renders a global prefix (static text or segments) the way keys start with it; dynamic prefixes can be anything
+type PrefixText<Prefix, Separator extends string> = Prefix extends string
+	? string extends Prefix
+		? string
+		: Prefix extends ""
+			? ""
+			: `${Prefix}${Separator}`
+	: Prefix extends readonly [infer Head, ...infer Rest]
+		? `${PrefixText<Head, Separator>}${PrefixText<Rest, Separator>}`
+		: Prefix extends readonly []
+			? ""
+			: string
+
+// Key format of a `createKeyBuilder` schema, from its options
+type RootKeyFormat<
+	Separator extends string,
+	Prefix extends KeyPrefix,
+	Escape extends EscapePolicy,
+	LengthPolicy extends LengthLimitPolicy,
+> = {
+	readonly separator: Separator
+	readonly path: PrefixText<Prefix, Separator>
+	readonly verbatim: [Escape] extends ["none" | "reject"] ? ([LengthPolicy] extends ["hash"] ? false : true) : false
+}
+
+// Any schema value that produces a key (or channel) builder
+type LeafNode = KeyDefinition | TypedKeyDefinition<any, any, any> | ChannelDefinition<any, any>
+
+// Key definition of a leaf node (plain, `defineKey` or `defineChannel`)
+type LeafDefinitionOf<V extends LeafNode> = V extends KeyDefinition
+	? V
+	: V extends TypedKeyDefinition<infer D, any, any>
+		? D
+		: V extends ChannelDefinition<infer D, any>
+			? D
+			: never
+
+// --- Reverse Parsing Types ---
+
+// Flattens intersections produced while accumulating arguments (purely cosmetic for hovers)
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+// Joins a tuple of schema keys into a dotted path literal, e.g. ["user", "orders"] -> "user.orders"
+type JoinPath<Path extends ReadonlyArray<string>> = Path extends readonly [infer Head extends string]
+	? Head
+	: Path extends readonly [infer Head extends string, ...infer Rest extends ReadonlyArray<string>]
+		? `${Head}.${JoinPath<Rest>}`
+		: string
+
+// Leaf nodes building keys (`defineChannel` leaves build channel names instead)
+type KeyLeafNode = KeyDefinition | TypedKeyDefinition<any, any, any>
+
+/**
+ * Discriminated union of every leaf a key can be parsed into.
+ * `id` is the dotted schema path (the discriminant), `path` the same path as a tuple and
+ * `args` the decoded values of all placeholders on the way (parameterized levels + local definition).
+ * `Leaf` selects the kind of leaves to include (keys by default, see `ParsedChannel`).
  */
-type KeyBuilderResult<S extends NestedSchema> = {
-	readonly [K in keyof S]: S[K] extends KeyDefinition // Leaf Node check
-		? LeafBuilderFunction<S[K]>
-		: S[K] extends Parameterized<infer P, infer SubSchema> // Parameterized Node check
-			? ParameterizingFunction<P, SubSchema>
-			: S[K] extends NestedSchema // Static Nested Node check
-				? KeyBuilderResult<S[K]>
-				: never // Catch-all for invalid schema types (satisfies noImplicitReturns)
+type ParsedKey<
+	S extends NestedSchema,
+	Path extends ReadonlyArray<string> = [],
+	A = {},
+	Leaf extends LeafNode = KeyLeafNode,
+> = {
+	[K in keyof S & string]: S[K] extends LeafNode // Leaf Node: emit one union member if it is of the wanted kind
+		? S[K] extends Leaf
+			? {
+					readonly id: JoinPath<[...Path, K]>
+					readonly path: readonly [...Path, K]
+					readonly args: Simplify<A & Args<LeafDefinitionOf<S[K]>>>
+				}
+			: never
+		: S[K] extends Parameterized<infer P, infer SubSchema> // Parameterized Node: carry its args down
+			? ParsedKey<SubSchema, [...Path, K], A & Args<P>, Leaf>
+			: S[K] extends NestedSchema // Static Nested Node
+				? ParsedKey<S[K], [...Path, K], A, Leaf>
+				: never
+}[keyof S & string]
+
+/** Discriminated union of every `defineChannel` leaf a channel name can be parsed into (see `ParsedKey`) */
+type ParsedChannel<S extends NestedSchema> = ParsedKey<S, [], {}, ChannelDefinition<any, any>>
+
+/** Internal state attached to the root object returned by `defineSchema` */
+interface SchemaRuntime<S extends NestedSchema> {
+	readonly schema: S
+	readonly leaves: ReadonlyArray<LeafTemplate>
+	readonly separator: string
+	readonly decodeValue: (encoded: string) => string // Inverse of the configured escape policy
+	readonly resolvePrefix: PrefixResolver // Key prefix of this view (global prefix and `withPrefix` scopes)
+	readonly rebuild: (resolvePrefix: PrefixResolver) => DefinedKeys<S> // Builds another view of the same schema
+	readonly redefine: (schema: NestedSchema) => DefinedKeys<any> // Builds another schema with the same options and prefix
+	matchers?: ReadonlyArray<LeafMatcher> // Compiled lazily on the first parse
+}
+
+/** Runtime of a `merge` result: every merged schema keeps its own runtime (separator, escaping, prefix) */
+interface MergedSchemaRuntime<S extends NestedSchema> {
+	readonly schema: S
+	readonly parts: ReadonlyArray<SchemaRuntime<any>>
+}
+
+/** Phantom property carrying the key format of a `defineSchema` result (type-level only) */
+declare const keyFormatBrand: unique symbol
+
+/** The root object returned by `defineSchema`: the builders plus the (hidden) schema runtime */
+type DefinedKeys<S extends NestedSchema, F extends KeyFormat = any> = KeyBuilderResult<S, F> & {
+	readonly [runtimeSchemaSymbol]: SchemaRuntime<S> | MergedSchemaRuntime<S>
+	readonly [keyFormatBrand]?: F
+}
+
+// --- Composition Types ---
+
+/** The raw schema behind a `defineSchema` (or `merge`) result */
+type SchemaOf<K> = K extends { readonly [runtimeSchemaSymbol]: { readonly schema: infer S } } ? S : never
+
+// Top-level keys defined by more than one of the schemas
+type OverlappingKeys<T extends ReadonlyArray<unknown>, Seen extends string = never> = T extends readonly [
+	infer Head,
+	...infer Rest,
+]
+	? (keyof SchemaOf<Head> & Seen) | OverlappingKeys<Rest, Seen | (keyof SchemaOf<Head> & string)>
+	: never
+
+// Intersected with the arguments of `merge`/`extend`: `unknown` without overlap, an unsatisfiable object otherwise
+type ValidateComposition<Overlap extends string> = [Overlap] extends [never]
+	? unknown
+	: { readonly __compositionError: `Keys defined more than once: ${Overlap}` }
+
+// --- Hash Tag Validation Types ---
+
+/** Marker carried by placeholders and parameterized levels wrapped in `hashTag(...)` */
+type HashTagged = { readonly _hashTag: true }
+
+/** Marker carried by placeholders wrapped in `optional(...)` */
+type OptionalMarker = { readonly _optional: true }
+
+/** Marker carried by placeholders wrapped in `optional(..., { default })`: the segment is never left out */
+type DefaultMarker<T = unknown> = { readonly _default: T }
+
+// Number of hash tags seen along a key, saturating at 2 ("too many")
+type TagCount = 0 | 1 | 2
+type IncrementTagCount<N extends TagCount> = N extends 0 ? 1 : 2
+
+// Counts the hash-tagged parts of a tuple, on top of the tags inherited from parent levels
+type CountHashTags<Parts, Seen extends TagCount> = Parts extends readonly [infer Head, ...infer Rest]
+	? CountHashTags<Rest, Head extends HashTagged ? IncrementTagCount<Seen> : Seen>
+	: Seen
+
+// Dotted paths of every leaf whose key would contain more than one hash tag
+type HashTagViolations<S extends NestedSchema, Seen extends TagCount = 0, Path extends string = ""> = {
+	[K in keyof S & string]: S[K] extends LeafNode
+		? CountHashTags<LeafDefinitionOf<S[K]>, Seen> extends 2
+			? `${Path}${K}`
+			: never
+		: S[K] extends Parameterized<infer P, infer SubSchema>
+			? HashTagViolations<
+					SubSchema,
+					CountHashTags<
+						P extends ReadonlyArray<any> ? P : [P],
+						S[K] extends HashTagged ? IncrementTagCount<Seen> : Seen
+					>,
+					`${Path}${K}.`
+				>
+			: S[K] extends NestedSchema
+				? HashTagViolations<S[K], Seen, `${Path}${K}.`>
+				: never
+}[keyof S & string]
+
+// Intersected with the schema argument of `defineSchema`: `unknown` when valid, an unsatisfiable object otherwise
+// (an `any` schema is let through untouched, there is nothing to check)
+type ValidateHashTags<S extends NestedSchema> = 0 extends 1 & S
+	? unknown
+	: [HashTagViolations<S>] extends [never]
+		? unknown
+		: { readonly __hashTagError: `Keys may contain at most one hash tag: ${HashTagViolations<S>}` }
+
+/** A reversible transformation applied to every placeholder value before it becomes part of a key */
+interface ValueEncoder {
+	encode: (value: string) => string
+	decode: (encoded: string) => string
 }
 
+/**
+ * How placeholder values containing the separator are handled:
+ * - `"none"` (default): values are inserted as-is.
+ * - `"reject"`: values containing the separator throw an `UnsafeArgumentError`.
+ * - `"encode"`: `%` and every separator character are percent-encoded (decoded again by `parseKey`).
+ * - a custom `ValueEncoder`: its output must not contain the separator.
+ */
+type EscapePolicy = "none" | "reject" | "encode" | ValueEncoder
+
+/**
+ * A namespace put in front of every key: static text (`"billing:prod"`), segments (`["billing", "prod"]`)
+ * or a function evaluated each time a key is built (e.g. reading the current tenant).
+ */
+type KeyPrefix = string | ReadonlyArray<string> | (() => string | ReadonlyArray<string>)
+
+/** Returns the prefix segments to put in front of a key (already evaluated, empty segments dropped) */
+type PrefixResolver = () => ReadonlyArray<string>
+
+/**
+ * What a key builder does with a key longer than `maxKeyLength` or a segment longer than `maxSegmentLength`:
+ * - `"throw"`: throws a `KeyLengthError` (default).
+ * - `"warn"`: logs the `KeyLengthError` message with `console.warn` and builds the key anyway.
+ * - `"hash"`: replaces the over-long segment with its SHA-1 digest, truncated to 16 hex characters (or the segment limit).
+ *   An over-long key gets its longest placeholder segments hashed until it fits (hash tags are left alone).
+ */
+type LengthLimitPolicy = "throw" | "warn" | "hash"
+
 interface KeyBuilderOptions {
 	separator?: string
+	escape?: EscapePolicy
+	prefix?: KeyPrefix
+	checkCollisions?: boolean // Run `findKeyCollisions` when defining a schema and throw on collisions (meant for development)
+	strict?: boolean // Throw an `InvalidSchemaError` for malformed schemas instead of skipping or tolerating them
+	viewCacheSize?: number // Views of a `parameterize` level kept for reuse, per level (default 16, 0 disables caching)
+	lazy?: boolean // Compile nested levels and create builders on first access instead of when the schema is defined
+	maxKeyLength?: number // Longest key allowed, prefix included (in characters, patterns aren't checked)
+	maxSegmentLength?: number | Readonly<Record<string, number>> // Longest placeholder value: for all, or by placeholder name
+	onLengthExceeded?: LengthLimitPolicy // What happens to over-long keys and segments (default "throw")
 }
 
 // Main function: Infers Name literally, T defaults to string
-function pBase<T extends Primitive, const Name extends string>(name: Name): Placeholder<T, Name> {
+function pBase<T, const Name extends string, const Kind extends PlaceholderKind>(
+	name: Name,
+	kind: Kind,
+	codec: ValueCodec<T>,
+	constraints?: PlaceholderConstraints
+): Placeholder<T, Name, Kind> {
 	// Common implementation detail
-	return {
+	const placeholder = {
 		[runtimePlaceholderSymbol]: true,
 		_name: name,
-	} as const as Placeholder<T, Name> // Assert conformance to the type
+		_kind: kind,
+		_codec: codec,
+		...(constraints ? { _constraints: constraints } : {}),
+		decode: (segment: string): T => decodePlaceholderValue(placeholder, segment) as T,
+	} as const as Placeholder<T, Name, Kind> // Assert conformance to the type
+	return placeholder
+}
+
+/** Segment codec of `p` placeholders (other primitives are accepted at runtime and stringified) */
+const stringSegmentCodec: ValueCodec<string> = { encode: (value) => String(value), decode: (segment) => segment }
+
+/** Segment codec of `p.number` placeholders, decoding rejects non-numeric segments */
+const numberSegmentCodec: ValueCodec<number> = {
+	encode: (value) => String(value),
+	decode: (segment) => {
+		// `Number("")` is 0, so empty segments are rejected explicitly
+		const value = Number(segment)
+		if (segment.trim() === "" || Number.isNaN(value)) {
+			throw new Error("expected a number") // Becomes the reason of a `KeyParseError`, see `decodePlaceholderValue`
+		}
+		return value
+	},
+}
+
+/** Segment codec of `p.boolean` placeholders, only `true`/`false` decode */
+const booleanSegmentCodec: ValueCodec<boolean> = {
+	encode: (value) => String(value),
+	decode: (segment) => {
+		if (segment !== "true" && segment !== "false") {
+			throw new Error("expected true or false")
+		}
+		return segment === "true"
+	},
+}
+
+/** Canonical form of a UUID (any version), compared case-insensitively */
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Segment codec of `p.uuid` placeholders, keys always hold the lowercase form */
+const uuidSegmentCodec: ValueCodec<string> = {
+	encode: (value) => value.toLowerCase(),
+	decode: (segment) => segment.toLowerCase(),
+}
+
+/** Number of date components (year, month, day, hours, minutes, seconds) kept by each granularity */
+const dateGranularityComponents: Record<DateGranularity, number> = {
+	year: 1,
+	month: 2,
+	day: 3,
+	hour: 4,
+	minute: 5,
+	second: 6,
+}
+
+/**
+ * Creates the segment codec of a `p.date` placeholder. Dates are truncated to the granularity in UTC and rendered as
+ * `2024`, `2024-01`, `2024-01-05`, `2024-01-05T13`, `2024-01-05T1304` or `2024-01-05T130407`
+ * (time components aren't colon-separated, the default key separator is `:`).
+ */
+function createDateSegmentCodec(granularity: DateGranularity): ValueCodec<Date> {
+	const componentCount = dateGranularityComponents[granularity]
+	if (componentCount === undefined) {
+		throw new InvalidSchemaError("", `unknown date granularity "${granularity}"`)
+	}
+	const pad = (value: number, length = 2) => String(value).padStart(length, "0")
+
+	const encode = (value: Date): string => {
+		const components = [
+			pad(value.getUTCFullYear(), 4),
+			`-${pad(value.getUTCMonth() + 1)}`,
+			`-${pad(value.getUTCDate())}`,
+			`T${pad(value.getUTCHours())}`,
+			pad(value.getUTCMinutes()),
+			pad(value.getUTCSeconds()),
+		]
+		return components.slice(0, componentCount).join("")
+	}
+
+	return {
+		encode,
+		decode: (segment) => {
+			const match = /^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?(?:T(\d{2}))?(\d{2})?(\d{2})?$/.exec(segment)
+			const components =
+				match
+					?.slice(1)
+					.filter((component) => component !== undefined)
+					.map(Number) ?? []
+			const [year = 0, month = 1, day = 1, hours = 0, minutes = 0, seconds = 0] = components
+			const value = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+			value.setUTCFullYear(year) // `Date.UTC` maps years 0-99 to 1900-1999
+			// Round-tripping rejects other granularities and impossible dates such as `2024-02-31`
+			if (components.length !== componentCount || encode(value) !== segment) {
+				throw new Error(`expected a date with "${granularity}" granularity`)
+			}
+			return value
+		},
+	}
 }
 
 /**
  * Creates a placeholder for a **string** value.
  * Infers the placeholder name as a literal type.
  * @param name The name of the placeholder.
- * @returns A Placeholder object typed as Placeholder<string, Name>.
+ * @param constraints Optional runtime checks (`maxLength`, `pattern`, `oneOf`) applied to every value.
+ * @returns A Placeholder object typed as Placeholder<string, Name, "string">.
  */
-export function p<const Name extends string>(name: Name): Placeholder<string, Name> {
-	return pBase<string, Name>(name)
+export function p<const Name extends string>(
+	name: Name,
+	constraints?: StringConstraints
+): Placeholder<string, Name, "string"> {
+	return pBase<string, Name, "string">(name, "string", stringSegmentCodec, constraints)
 }
 
 // Namespace or static methods for other types
@@ -156,20 +852,79 @@ export function p<const Name extends string>(name: Name): Placeholder<string, Na
  * Creates a placeholder for a **number** value.
  * Infers the placeholder name as a literal type.
  * @param name The name of the placeholder.
- * @returns A Placeholder object typed as Placeholder<number, Name>.
+ * @param constraints Optional runtime checks (`integer`, `min`, `max`, `oneOf`) applied to every value.
+ * @returns A Placeholder object typed as Placeholder<number, Name, "number">.
  */
-p.number = <const Name extends string>(name: Name): Placeholder<number, Name> => {
-	return pBase<number, Name>(name)
+p.number = <const Name extends string>(
+	name: Name,
+	constraints?: NumberConstraints
+): Placeholder<number, Name, "number"> => {
+	return pBase<number, Name, "number">(name, "number", numberSegmentCodec, constraints)
 }
 
 /**
  * Creates a placeholder for a **boolean** value.
  * Infers the placeholder name as a literal type.
  * @param name The name of the placeholder.
- * @returns A Placeholder object typed as Placeholder<boolean, Name>.
+ * @returns A Placeholder object typed as Placeholder<boolean, Name, "boolean">.
+ */
+p.boolean = <const Name extends string>(name: Name): Placeholder<boolean, Name, "boolean"> => {
+	return pBase<boolean, Name, "boolean">(name, "boolean", booleanSegmentCodec)
+}
+
+/**
+ * Creates a placeholder for one of a fixed set of string literals.
+ * Infers the placeholder name and the values as literal types.
+ * @param name The name of the placeholder.
+ * @param values The allowed values, e.g. `["active", "banned"] as const`.
+ * @returns A Placeholder object typed as Placeholder<Values[number], Name, "enum">.
+ */
+p.enum = <const Name extends string, const Values extends ReadonlyArray<string>>(
+	name: Name,
+	values: Values
+): Placeholder<Values[number], Name, "enum"> => {
+	if (!Array.isArray(values) || values.length === 0) {
+		throw new InvalidSchemaError("", `p.enum("${name}") requires a non-empty array of values`)
+	}
+	return pBase<Values[number], Name, "enum">(name, "enum", stringSegmentCodec, { oneOf: values })
+}
+
+/**
+ * Creates a placeholder for a **Date** value, rendered in a canonical UTC format.
+ * Infers the placeholder name as a literal type.
+ * @param name The name of the placeholder.
+ * @param options The granularity the date is truncated to (default `"day"`, e.g. `2024-01-05`).
+ * @returns A Placeholder object typed as Placeholder<Date, Name, "date">.
+ */
+p.date = <const Name extends string>(
+	name: Name,
+	options?: { granularity?: DateGranularity }
+): Placeholder<Date, Name, "date"> => {
+	return pBase<Date, Name, "date">(name, "date", createDateSegmentCodec(options?.granularity ?? "day"))
+}
+
+/**
+ * Creates a placeholder for a UUID string (any version), always rendered in lowercase.
+ * Infers the placeholder name as a literal type.
+ * @param name The name of the placeholder.
+ * @returns A Placeholder object typed as Placeholder<string, Name, "uuid">.
+ */
+p.uuid = <const Name extends string>(name: Name): Placeholder<string, Name, "uuid"> => {
+	return pBase<string, Name, "uuid">(name, "uuid", uuidSegmentCodec)
+}
+
+/**
+ * Creates a placeholder for a custom type, serialized by the given codec.
+ * `decode` should throw for segments that aren't valid encodings, so `parseKey` can reject them.
+ * @param name The name of the placeholder.
+ * @param codec Converts a value to its key segment and back.
+ * @returns A Placeholder object typed as Placeholder<T, Name, "custom">.
  */
-p.boolean = <const Name extends string>(name: Name): Placeholder<boolean, Name> => {
-	return pBase<boolean, Name>(name)
+p.custom = <const Name extends string, T>(name: Name, codec: ValueCodec<T>): Placeholder<T, Name, "custom"> => {
+	if (typeof codec?.encode !== "function" || typeof codec.decode !== "function") {
+		throw new InvalidSchemaError("", `p.custom("${name}") requires a codec with encode and decode functions`)
+	}
+	return pBase<T, Name, "custom">(name, "custom", codec)
 }
 
 /**
@@ -186,11 +941,20 @@ export function parameterize<
 >(placeholder: P, nestedSchema: S): Parameterized<P, S> {
 	// Basic runtime validation for better JS DX
 	if (!placeholder || (Array.isArray(placeholder) && placeholder.length === 0)) {
-		throw new Error("[RedisKeyBuilder] parameterize requires at least one placeholder.")
+		throw new InvalidSchemaError("", "parameterize requires at least one placeholder")
+	}
+	// Path parameters can be defaulted, but never left out (the level's segments would shift)
+	for (const ph of Array.isArray(placeholder) ? placeholder : [placeholder]) {
+		if (isOmittable(ph)) {
+			throw new InvalidSchemaError(
+				"",
+				`path parameter "${ph._name}" can't be optional without a default, only a leaf's trailing placeholders can`
+			)
+		}
 	}
 	// Ensure nested schema is actually an object
 	if (typeof nestedSchema !== "object" || nestedSchema === null || Array.isArray(nestedSchema)) {
-		throw new Error("[RedisKeyBuilder] parameterize requires a valid nested schema object as the second argument.")
+		throw new InvalidSchemaError("", "parameterize requires a valid nested schema object as the second argument")
 	}
 
 	return {
@@ -200,174 +964,2458 @@ export function parameterize<
 	} as const // Treat returned structure as immutable
 }
 
-// --- Key Builder Implementation ---
+/**
+ * Wraps a placeholder or a `parameterize` level in a Redis Cluster hash tag.
+ * The segment is emitted as `{value}` (or `{value1:value2}` for a multi-placeholder level),
+ * so every key sharing it lands in the same hash slot. A key may contain at most one hash tag.
+ * @param target A placeholder (`p(...)`) or a `parameterize(...)` level.
+ * @returns The same marker, flagged as a hash tag.
+ */
+export function hashTag<const T extends Placeholder<any, any> | Parameterized<any, any>>(target: T): T & HashTagged {
+	if (!isPlaceholder(target) && !isParameterized(target)) {
+		throw new InvalidSchemaError("", "hashTag requires a placeholder or a parameterize level")
+	}
+	// Spreading keeps the (symbol) marker of the wrapped object
+	return { ...target, _hashTag: true } as const
+}
 
 /**
- * Creates a Redis key builder factory.
- * @param options Configuration options like the separator.
- * @returns A `defineSchema` function bound to the configured options.
+ * Makes a placeholder's argument optional.
+ * Without a default, a left-out argument drops the segment from the key; such placeholders may only
+ * close a leaf definition (so keys stay unambiguous) and a value requires the optional ones before it.
+ * With a default, the default is rendered instead; defaulted placeholders may appear anywhere, path parameters included.
+ * @param placeholder A placeholder (`p(...)`, `p.number(...)`, ...).
+ * @param options `default`: the value used when the argument is left out.
+ * @returns The same placeholder, flagged as optional.
  */
-export function createKeyBuilder(options?: KeyBuilderOptions) {
-	// Use nullish coalescing for default value (safe for strictNullChecks)
-	const separator = options?.separator ?? ":"
+export function optional<const T extends Placeholder<any, any>>(
+	placeholder: T,
+	options: { default: T["_type"] }
+): T & OptionalMarker & DefaultMarker<T["_type"]>
+export function optional<const T extends Placeholder<any, any>>(
+	placeholder: T,
+	options?: { default?: T["_type"] }
+): T & OptionalMarker
+export function optional<const T extends Placeholder<any, any>>(
+	placeholder: T,
+	options?: { default?: T["_type"] }
+): T & OptionalMarker {
+	if (!isPlaceholder(placeholder)) {
+		throw new InvalidSchemaError("", "optional requires a placeholder")
+	}
+	const defaultValue = options?.default
+	if (defaultValue !== undefined) {
+		const invalidReason = checkPlaceholderValue(placeholder, defaultValue)
+		if (invalidReason !== undefined) {
+			throw new InvalidSchemaError(
+				"",
+				`invalid default "${String(defaultValue)}" for placeholder "${placeholder._name}": ${invalidReason}`
+			)
+		}
+	} else if (placeholder._hashTag) {
+		// Dropping the tag would silently move the key to another hash slot
+		throw new InvalidSchemaError(
+			"",
+			`hash-tagged placeholder "${placeholder._name}" can only be optional with a default`
+		)
+	}
+	return { ...placeholder, _optional: true, ...(defaultValue !== undefined ? { _default: defaultValue } : {}) } as const
+}
 
-	/** Internal recursive function to process each level of the schema */
-	function processSchemaLevel<S extends NestedSchema>(
-		schemaLevel: S,
-		currentPrefix: ReadonlyArray<string> // Use readonly arrays for internal immutability
-	): KeyBuilderResult<S> {
-		// Initialize with a clear type, avoiding implicit 'any'.
-		// Using Record<string, unknown> or {} and then assigning specific types is safe here.
-		const levelResult: Partial<KeyBuilderResult<S>> = {}
-
-		// Use `keyof S` for stricter iteration if possible, but `for...in` is common for objects.
-		// Ensure `hasOwnProperty` check for safety with `for...in`.
-		for (const key in schemaLevel) {
-			// Type guard for `for...in` loop safety
-			if (!Object.prototype.hasOwnProperty.call(schemaLevel, key)) {
-				continue
+/** Ready-made value codecs for `defineKey` */
+export const codec = {
+	/** Values are stored as-is */
+	string: { name: "string", encode: (value: string) => value, decode: (raw: string) => raw } as ValueCodec<string>,
+	/** Numbers (counters, scores, ...), decoding throws a `KeyParseError` on non-numeric values */
+	number: {
+		name: "number",
+		encode: (value: number) => String(value),
+		decode: (raw: string) => {
+			const value = Number(raw)
+			if (raw.trim() === "" || Number.isNaN(value)) {
+				throw new KeyParseError(raw, "expected a number", { expected: "number" })
+			}
+			return value
+		},
+	} as ValueCodec<number>,
+	/** Booleans stored as "true"/"false", decoding throws a `KeyParseError` on anything else */
+	boolean: {
+		name: "boolean",
+		encode: (value: boolean) => String(value),
+		decode: (raw: string) => {
+			if (raw !== "true" && raw !== "false") {
+				throw new KeyParseError(raw, "expected true or false", { expected: "boolean" })
 			}
+			return raw === "true"
+		},
+	} as ValueCodec<boolean>,
+	/** Any JSON-serializable value; the type parameter is not validated at runtime */
+	json: <T>(): ValueCodec<T> => ({
+		name: "json",
+		encode: (value) => JSON.stringify(value),
+		decode: (raw) => JSON.parse(raw) as T,
+	}),
+}
 
-			// Type `value` explicitly based on the schema possibilities
-			const value: KeyDefinition | NestedSchema | Parameterized<any, any> | undefined = schemaLevel[key]
+/**
+ * Attaches value metadata to a leaf definition. The builder then returns a typed key handle
+ * (a `string` carrying `TValue` and `TRedisType` at the type level) and exposes `redisType`/`codec`.
+ * @param definition The key definition, exactly as for a plain leaf.
+ * @param options The Redis data type (default `"string"`) and the value codec (default `codec.string`).
+ * @returns A typed leaf marker used internally by the builder.
+ */
+export function defineKey<
+	const D extends KeyDefinition,
+	TValue = string,
+	const TRedisType extends RedisDataType = "string",
+>(
+	definition: D,
+	options?: { type?: TRedisType; value?: ValueCodec<TValue> }
+	// `NoInfer` keeps the schema's contextual type (`TypedKeyDefinition<any, any, any>`) from overriding the defaults
+): TypedKeyDefinition<D, NoInfer<TValue>, NoInfer<TRedisType>> {
+	if (!Array.isArray(definition)) {
+		throw new InvalidSchemaError("", "defineKey requires a key definition array as the first argument")
+	}
 
-			if (value === undefined) {
-				// Decide how to handle: warn, throw, or skip
-				const pathSoFar = [...currentPrefix, key].join(separator)
+	return {
+		[runtimeTypedKeySymbol]: true,
+		_definition: definition,
+		_redisType: (options?.type ?? "string") as TRedisType,
+		_codec: (options?.value ?? codec.string) as ValueCodec<TValue>,
+	} as const
+}
 
-				if (process.env.NODE_ENV === "development") {
-					// biome-ignore lint/suspicious/noConsole: We want to show this
-					console.warn(
-						`[RedisKeyBuilder] Encountered 'undefined' value in schema at path "${pathSoFar}". Skipping key.`
-					)
-				}
-				// Or: throw new Error(`[RedisKeyBuilder] Schema value cannot be 'undefined' at path "${pathSoFar}".`);
-				continue // Skip processing this key
-			}
-
-			// --- Type Guards for Processing ---
-
-			// 1. Parameterized Node
-			if (typeof value === "object" && value !== null && runtimeParameterizedSymbol in value) {
-				const parameterizedNode = value as Parameterized<any, any> // Safe cast after check
-				const paramPlaceholders = parameterizedNode._placeholders
-				const subSchema = parameterizedNode._schema
-
-				// Define the function that requires path parameters
-				const parameterizerFunc = (paramArgs: Record<string, Primitive>): KeyBuilderResult<any> => {
-					const paramValues: string[] = []
-					// Ensure we always iterate over an array
-					const placeholdersArray = Array.isArray(paramPlaceholders) ? paramPlaceholders : [paramPlaceholders]
-
-					// Iterate through the necessary path parameters
-					for (const ph of placeholdersArray) {
-						// Access argument safely (paramArgs might not have the key)
-						const argValue = paramArgs?.[ph._name]
-						// Strict check for null/undefined
-						if (argValue === undefined || argValue === null) {
-							// Provide more context in error message
-							const pathSoFar = [...currentPrefix, key].join(separator)
-							throw new Error(
-								`[RedisKeyBuilder] Missing value for path parameter "${ph._name}" required by "${pathSoFar}".`
-							)
-						}
-						// Explicitly convert to string for the key path
-						paramValues.push(String(argValue))
-					}
+/**
+ * Declares a leaf naming Pub/Sub channels (or streams) instead of keys. The builder returns a typed channel name,
+ * `.pattern` builds the matching `PSUBSCRIBE` pattern and `parseChannel` decodes received channels.
+ * @param definition The channel definition, exactly as for a plain leaf.
+ * @param options The codec of the messages published on the channel (default `codec.string`).
+ * @returns A channel leaf marker used internally by the builder.
+ */
+export function defineChannel<const D extends KeyDefinition, TMessage = string>(
+	definition: D,
+	options?: { message?: ValueCodec<TMessage> }
+): ChannelDefinition<D, NoInfer<TMessage>> {
+	if (!Array.isArray(definition)) {
+		throw new InvalidSchemaError("", "defineChannel requires a key definition array as the first argument")
+	}
 
-					// Construct the prefix for the next level: current + static key + resolved params
-					const nextPrefix: ReadonlyArray<string> = [...currentPrefix, key, ...paramValues]
-					// Recursively process the sub-schema with the new prefix
-					return processSchemaLevel(subSchema, nextPrefix)
-				}
-				// Assign the correctly typed function to the result
-				levelResult[key] = parameterizerFunc as any // Cast needed as TS struggles matching complex conditional types dynamically
-
-				// 2. Leaf Node (KeyDefinition Array)
-			} else if (Array.isArray(value)) {
-				const localDefinition = value as KeyDefinition // Safe cast
-
-				// Construct the full path definition used by the runtime builder
-				// Prefix (includes resolved params) + Static Key + Local Definition Parts
-				const fullPathDefinition: ReadonlyArray<KeyDefinitionPart> = [...currentPrefix, ...localDefinition]
-
-				// Find placeholders *only* in the local definition to determine required args
-				const localPlaceholders = localDefinition.filter(
-					(part): part is Placeholder<any, any> =>
-						// Type predicate for safety
-						typeof part === "object" && part !== null && runtimePlaceholderSymbol in part
-				)
+	return {
+		[runtimeChannelSymbol]: true,
+		_definition: definition,
+		_codec: (options?.message ?? codec.string) as ValueCodec<TMessage>,
+	} as const
+}
 
-				// Define the runtime builder function for this leaf node
-				const builder = (args?: Record<string, Primitive>): string => {
-					const keyParts: string[] = []
-					for (const part of fullPathDefinition) {
-						if (typeof part === "string") {
-							// Add static string part
-							keyParts.push(part)
-						} else if (typeof part === "object" && part !== null && runtimePlaceholderSymbol in part) {
-							// It's a placeholder defined in the full path (could be local or from prefix)
-							const placeholder = part as Placeholder<any, any> // Safe cast
-							// Look up value in potentially undefined `args` object
-							const argValue = args?.[placeholder._name]
-							// Strict check for missing required arguments (TypeScript should catch this, but good runtime check)
-							if (argValue === undefined || argValue === null) {
-								const keyPathHint = fullPathDefinition
-									.map((p) => (typeof p === "string" ? p : `${p._name}`))
-									.join(separator)
-								throw new Error(
-									`[RedisKeyBuilder] Missing value for argument placeholder "${placeholder._name}" when building key like "${keyPathHint}".`
-								)
-							}
-							// Convert argument value to string for the key
-							keyParts.push(String(argValue))
-						}
-						// Note: No 'else' needed if KeyDefinitionPart only allows string | Placeholder
-					}
-					// Join parts, potentially filtering empty strings if definitions allow them (usually not needed)
-					return keyParts.join(separator)
-				}
+/**
+ * Attaches a TTL policy to a leaf, a `parameterize` level or a static nested level.
+ * Keys inherit the policy of their closest enclosing level unless they declare their own.
+ * @param target A key definition, a `defineKey(...)` leaf, a `parameterize(...)` level or a nested schema object.
+ * @param ttl `{ seconds }` or `{ ms }`, or a function computing it from the key's arguments.
+ * @returns The same node, carrying the TTL policy.
+ */
+export function withTtl<const T extends TtlTarget>(target: T, ttl: TtlPolicy<TtlArgs<T>>): T & WithTtl {
+	if (typeof target !== "object" || target === null || isPlaceholder(target)) {
+		throw new InvalidSchemaError(
+			"",
+			"withTtl requires a key definition, a defineKey leaf, a parameterize level or a nested schema"
+		)
+	}
+	if (isChannel(target)) {
+		throw new InvalidSchemaError("", "withTtl can't be applied to a defineChannel leaf, channels don't expire")
+	}
+	// Fixed policies are validated right away, computed ones whenever they are resolved
+	if (typeof ttl !== "function") {
+		toMilliseconds(ttl, "")
+	}
 
-				// Assign the correct function signature based on *local* placeholders
-				if (localPlaceholders.length === 0) {
-					// No local args needed
-					levelResult[key] = (() => builder()) as any // Wrap to match () => string, cast needed
-				} else {
-					// Local args required
-					levelResult[key] = ((args: Record<string, Primitive>) => builder(args)) as any // Cast needed
-				}
+	// Copies keep the original node untouched (it may be shared); spreading keeps the (symbol) markers of objects
+	const copy = Array.isArray(target) ? [...target] : { ...target }
+	return Object.assign(copy, { [runtimeTtlSymbol]: ttl }) as T & WithTtl
+}
 
-				// 3. Static Nested Node (NestedSchema Object)
-			} else if (typeof value === "object" && value !== null) {
-				// It's a plain object, representing static nesting
-				levelResult[key] = processSchemaLevel(
-					value as NestedSchema, // Safe cast after checks
-					[...currentPrefix, key] // Add the static key to the prefix for the next level
-				) as any // Cast needed
-			} else {
-				// Handle unexpected value types in the schema (satisfies noImplicitReturns for this path)
-				const pathSoFar = [...currentPrefix, key].join(separator)
-				// biome-ignore lint/suspicious/noConsole: We want to show this
-				console.warn(`[RedisKeyBuilder] Encountered unexpected value type in schema at path "${pathSoFar}". Skipping.`)
-				// Or throw an error:
-				// throw new Error(`[RedisKeyBuilder] Invalid schema structure: Unexpected value type at path "${pathSoFar}".`);
-			}
-		}
-		// Final cast is safe assuming the internal logic correctly builds the structure matching KeyBuilderResult<S>
-		return levelResult as KeyBuilderResult<S>
+/**
+ * Converts a TTL into whole milliseconds (as expected by `SET ... PX`), rejecting non-positive values
+ * with an `InvalidSchemaError` at `schemaPath` (the policy is part of the schema, computed or not)
+ */
+function toMilliseconds(duration: TtlDuration, schemaPath: string): number {
+	const ms = "ms" in duration ? duration.ms : duration.seconds * 1000
+	if (typeof ms !== "number" || !Number.isFinite(ms) || ms <= 0) {
+		throw new InvalidSchemaError(
+			schemaPath,
+			`invalid TTL ${JSON.stringify(duration)}, expected a positive number of seconds or milliseconds`
+		)
 	}
+	return Math.ceil(ms)
+}
 
-	/**
-	 * Defines the key schema and returns a deeply typed object with typesafe key builder functions.
-	 * @param schema The nested schema definition object.
-	 * @template S Captures the literal structure of the input schema for precise typing.
-	 * @returns An object mirroring the schema structure, with builder functions.
-	 */
-	function defineSchema<const S extends NestedSchema>(schema: S): KeyBuilderResult<S> {
-		// Start the recursive processing with an empty prefix
-		return processSchemaLevel(schema, [])
-	}
+// --- Glob Patterns ---
 
-	// Return the main schema definition function
-	return defineSchema
+/** A resolved segment of a level's prefix, pre-rendered both as plain key text and as glob pattern text */
+interface PrefixSegment {
+	readonly text: string
+	readonly glob: string
+	readonly hashTag?: string // Content of the hash tag when this segment is one (unknown for wildcards)
+	readonly hashTagOwner?: Placeholder<any, any> // (First) placeholder rendered into that hash tag
+	readonly hashable?: true // A path parameter value, hashed like local values to fit `maxKeyLength`
+}
+
+/** Marks a path parameter omitted in a `.pattern(...)` call; rendered as `*` */
+const wildcardSegment: PrefixSegment = { text: "*", glob: "*" }
+
+/** The characters Redis glob-style patterns (`SCAN MATCH`, `KEYS`, `PSUBSCRIBE`) treat specially */
+const globCharacters = /[*?[\]\\]/
+
+/** Escapes the glob characters of a value, testing first since most values have none */
+function escapeGlob(value: string): string {
+	return globCharacters.test(value) ? value.replace(/[*?[\]\\]/g, "\\$&") : value
+}
+
+/** Creates the prefix segment for static text (nested object keys, parameterize level keys) */
+function staticSegment(text: string): PrefixSegment {
+	return { text, glob: escapeGlob(text) }
+}
+
+// --- Errors ---
+
+/** Base class of the errors thrown by key builders and the schema helpers, for a single `instanceof` check */
+export class RedisKeyBuilderError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = "RedisKeyBuilderError"
+	}
+}
+
+/** Thrown by a key builder or a `parameterize` level called without a required argument */
+export class MissingArgumentError extends RedisKeyBuilderError {
+	/** Name of the missing placeholder */
+	readonly placeholder: string
+	/** Key template the value was meant for, e.g. `user:userId:profile` */
+	readonly path: string
+	/** Dotted schema path of the builder that was called, e.g. `user.profile` */
+	readonly schemaPath: string
+	/** Kind of value the placeholder expects */
+	readonly expected: PlaceholderKind
+	/** `"parameterize"` for a path parameter, `"local"` for an argument of the key builder itself */
+	readonly origin: "parameterize" | "local"
+
+	constructor(
+		placeholder: string,
+		path: string,
+		schemaPath: string,
+		expected: PlaceholderKind,
+		origin: "parameterize" | "local"
+	) {
+		super(
+			origin === "parameterize"
+				? `[RedisKeyBuilder] Missing value for path parameter "${placeholder}" required by "${path}".`
+				: `[RedisKeyBuilder] Missing value for argument placeholder "${placeholder}" when building key like "${path}".`
+		)
+		this.name = "MissingArgumentError"
+		this.placeholder = placeholder
+		this.path = path
+		this.schemaPath = schemaPath
+		this.expected = expected
+		this.origin = origin
+	}
+}
+
+/**
+ * Thrown when a placeholder value would break out of its key segment (escape policy `"reject"`,
+ * or a custom encoder producing the separator).
+ */
+export class UnsafeArgumentError extends RedisKeyBuilderError {
+	/** Name of the offending placeholder */
+	readonly placeholder: string
+	/** Key template the value was meant for, e.g. `user:userId:profile` */
+	readonly path: string
+	/** The (unencoded) value that was rejected */
+	readonly value: string
+	/** Dotted schema path of the builder that was called, e.g. `user.profile` */
+	readonly schemaPath: string
+
+	constructor(placeholder: string, path: string, value: string, separator: string, schemaPath = "") {
+		super(
+			`[RedisKeyBuilder] Value "${value}" for placeholder "${placeholder}" in "${path}" contains the separator "${separator}".`
+		)
+		this.name = "UnsafeArgumentError"
+		this.placeholder = placeholder
+		this.path = path
+		this.value = value
+		this.schemaPath = schemaPath
+	}
+}
+
+/**
+ * Thrown when a placeholder value has the wrong type (e.g. `"abc"` for `p.number`)
+ * or violates the placeholder's constraints.
+ */
+export class InvalidArgumentError extends RedisKeyBuilderError {
+	/** Name of the offending placeholder */
+	readonly placeholder: string
+	/** Key template the value was meant for, e.g. `user:userId:profile` */
+	readonly path: string
+	/** The rejected value, as received */
+	readonly value: unknown
+	/** What the value should have been, e.g. `expected an integer` */
+	readonly reason: string
+	/** Kind of value the placeholder expects */
+	readonly expected: PlaceholderKind | undefined
+	/** Dotted schema path of the builder that was called, e.g. `user.profile` */
+	readonly schemaPath: string
+
+	constructor(
+		placeholder: string,
+		path: string,
+		value: unknown,
+		reason: string,
+		expected?: PlaceholderKind,
+		schemaPath = ""
+	) {
+		super(
+			`[RedisKeyBuilder] Invalid value "${String(value)}" for placeholder "${placeholder}" in "${path}": ${reason}.`
+		)
+		this.name = "InvalidArgumentError"
+		this.placeholder = placeholder
+		this.path = path
+		this.value = value
+		this.reason = reason
+		this.expected = expected
+		this.schemaPath = schemaPath
+	}
+}
+
+/**
+ * Thrown when a schema is malformed: by schema helpers (`parameterize`, `optional`, `withTtl`, ...), at define time,
+ * for any shape issue with `strict` key builders, and for invalid computed TTLs
+ */
+export class InvalidSchemaError extends RedisKeyBuilderError {
+	/** Dotted schema path of the offending entry, e.g. `user.profile` (empty when a schema helper rejects its arguments) */
+	readonly path: string
+	/** What is wrong with it, e.g. `the value is undefined` */
+	readonly reason: string
+
+	constructor(path: string, reason: string) {
+		super(
+			path === ""
+				? `[RedisKeyBuilder] Invalid schema: ${reason}.`
+				: `[RedisKeyBuilder] Invalid schema at "${path}": ${reason}.`
+		)
+		this.name = "InvalidSchemaError"
+		this.path = path
+		this.reason = reason
+	}
+}
+
+/**
+ * Thrown when a key (`parseKey`), a key segment (`placeholder.decode`) or a stored value (`codec.number`/`codec.boolean`)
+ * can't be parsed
+ */
+export class KeyParseError extends RedisKeyBuilderError {
+	/** The key, key segment or stored value that was parsed */
+	readonly input: string
+	/** Why it couldn't be parsed, e.g. `expected a number` */
+	readonly reason: string
+	/** Name of the placeholder the segment was decoded for, if any */
+	readonly placeholder: string | undefined
+	/** Kind of value the placeholder (or the value codec) expects, if any */
+	readonly expected: PlaceholderKind | undefined
+	/** Dotted schema paths the key matches (more than one for an ambiguous key) */
+	readonly paths: ReadonlyArray<string>
+
+	constructor(
+		input: string,
+		reason: string,
+		details?: { placeholder?: string; expected?: PlaceholderKind; paths?: ReadonlyArray<string> }
+	) {
+		super(
+			details?.placeholder !== undefined
+				? `[RedisKeyBuilder] Cannot decode "${input}" for placeholder "${details.placeholder}": ${reason}.`
+				: details?.expected !== undefined
+					? `[RedisKeyBuilder] Cannot decode the value "${input}": ${reason}.`
+					: `[RedisKeyBuilder] Cannot parse key "${input}": ${reason}.`
+		)
+		this.name = "KeyParseError"
+		this.input = input
+		this.reason = reason
+		this.placeholder = details?.placeholder
+		this.expected = details?.expected
+		this.paths = details?.paths ?? []
+	}
+}
+
+/** Thrown when schema leaves can build the same key (`merge`, `extend`, `checkCollisions`) */
+export class KeyCollisionError extends RedisKeyBuilderError {
+	/** Dotted schema paths of the colliding leaves */
+	readonly paths: ReadonlyArray<string>
+	/** A key more than one of them builds, if known */
+	readonly example: string | undefined
+
+	constructor(paths: ReadonlyArray<string>, reason: string, example?: string) {
+		super(`[RedisKeyBuilder] Keys ${paths.map((path) => `"${path}"`).join(" and ")} ${reason}.`)
+		this.name = "KeyCollisionError"
+		this.paths = paths
+		this.example = example
+	}
+}
+
+/** Thrown when a key is longer than the builder's `maxKeyLength`, or a placeholder value longer than its `maxSegmentLength` */
+export class KeyLengthError extends RedisKeyBuilderError {
+	/** Name of the over-long placeholder, `undefined` when the key as a whole is too long */
+	readonly placeholder: string | undefined
+	/** Key template the value was meant for, e.g. `user:userId:profile` */
+	readonly path: string
+	/** Dotted schema path of the builder that was called, e.g. `user.profile` */
+	readonly schemaPath: string
+	/** Length of the key (or segment), in characters */
+	readonly length: number
+	/** The configured limit */
+	readonly limit: number
+
+	constructor(path: string, schemaPath: string, length: number, limit: number, placeholder?: string) {
+		super(
+			placeholder === undefined
+				? `[RedisKeyBuilder] Key built by "${path}" is ${length} characters long, the limit is ${limit}.`
+				: `[RedisKeyBuilder] Value for placeholder "${placeholder}" in "${path}" is ${length} characters long, the limit is ${limit}.`
+		)
+		this.name = "KeyLengthError"
+		this.placeholder = placeholder
+		this.path = path
+		this.schemaPath = schemaPath
+		this.length = length
+		this.limit = limit
+	}
+}
+
+// --- Value Escaping ---
+
+/** Checks a value against the placeholder's type and constraints, returning the reason it is invalid (if it is) */
+function checkPlaceholderValue(placeholder: Placeholder<any, any>, value: unknown): string | undefined {
+	const constraints = placeholder._constraints
+	switch (placeholder._kind) {
+		case "number": {
+			if (typeof value !== "number" || !Number.isFinite(value)) {
+				return "expected a finite number"
+			}
+			const { integer, min, max, oneOf } = (constraints ?? {}) as NumberConstraints
+			if (integer && !Number.isInteger(value)) {
+				return "expected an integer"
+			}
+			if (min !== undefined && value < min) {
+				return `expected at least ${min}`
+			}
+			if (max !== undefined && value > max) {
+				return `expected at most ${max}`
+			}
+			if (oneOf && !oneOf.includes(value)) {
+				return `expected one of ${oneOf.join(", ")}`
+			}
+			return undefined
+		}
+		case "boolean":
+			return typeof value === "boolean" ? undefined : "expected a boolean"
+		case "date":
+			return value instanceof Date && !Number.isNaN(value.getTime()) ? undefined : "expected a valid Date"
+		case "uuid":
+			return typeof value === "string" && uuidPattern.test(value) ? undefined : "expected a UUID"
+		case "custom":
+			return undefined // Custom codecs validate in `encode`/`decode`
+		default: {
+			// Other primitives are still accepted and stringified, constraints apply to the resulting text
+			if ((typeof value === "object" && value !== null) || typeof value === "function" || typeof value === "symbol") {
+				return "expected a string"
+			}
+			const { maxLength, pattern, oneOf } = (constraints ?? {}) as StringConstraints
+			const text = String(value)
+			if (maxLength !== undefined && text.length > maxLength) {
+				return `expected at most ${maxLength} characters`
+			}
+			// `search` ignores `lastIndex`, so global/sticky regular expressions are safe to reuse
+			if (pattern && text.search(pattern) === -1) {
+				return `expected to match ${pattern}`
+			}
+			if (oneOf && !oneOf.includes(text)) {
+				return `expected one of ${oneOf.join(", ")}`
+			}
+			return undefined
+		}
+	}
+}
+
+/** Percent-encodes `%` and every character of the separator, so encoded values never contain it */
+function createPercentEncoder(separator: string): ValueEncoder {
+	const reserved = new Set(["%", ...separator])
+	const utf8 = new TextEncoder()
+	return {
+		encode: (value) =>
+			Array.from(value, (char) =>
+				reserved.has(char)
+					? Array.from(utf8.encode(char), (byte) => `%${byte.toString(16).toUpperCase().padStart(2, "0")}`).join("")
+					: char
+			).join(""),
+		decode: (encoded) => decodeURIComponent(encoded),
+	}
+}
+
+// --- Key Length Limits ---
+
+/** Length of the SHA-1 digests replacing over-long segments (hex characters, i.e. 64 bits) */
+const hashedSegmentLength = 16
+
+/** Rejects length limits that aren't positive integers */
+function assertLengthLimit(limit: number | undefined, option: string): void {
+	if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+		throw new RedisKeyBuilderError(`[RedisKeyBuilder] ${option} must be a positive integer, got ${limit}.`)
+	}
+}
+
+// --- Key Prefix ---
+
+/** Key prefix used when none is configured */
+const noPrefix: PrefixResolver = () => []
+
+/** Normalizes a key prefix option into a resolver; static prefixes are normalized once */
+function toPrefixResolver(prefix: KeyPrefix | undefined): PrefixResolver {
+	if (prefix === undefined) {
+		return noPrefix
+	}
+	const normalize = (value: string | ReadonlyArray<string>): ReadonlyArray<string> => {
+		if (typeof value !== "string" && !Array.isArray(value)) {
+			throw new RedisKeyBuilderError("[RedisKeyBuilder] A key prefix must be a string or an array of strings.")
+		}
+		return (typeof value === "string" ? [value] : value).filter((segment) => segment !== "")
+	}
+	if (typeof prefix === "function") {
+		return () => normalize(prefix())
+	}
+	const segments = normalize(prefix)
+	return () => segments
+}
+
+// --- Runtime Type Guards ---
+
+/** Checks whether a schema/definition part is a placeholder created by `p` */
+function isPlaceholder(value: unknown): value is Placeholder<any, any> {
+	return typeof value === "object" && value !== null && runtimePlaceholderSymbol in value
+}
+
+/** Checks whether a placeholder is optional without a default, i.e. its segment may be left out of the key */
+function isOmittable(part: TemplatePart): boolean {
+	return isPlaceholder(part) && part._optional === true && part._default === undefined
+}
+
+/** Checks whether a schema value is a leaf created by `defineKey` */
+function isTypedKey(value: unknown): value is TypedKeyDefinition<KeyDefinition, unknown, RedisDataType> {
+	return typeof value === "object" && value !== null && runtimeTypedKeySymbol in value
+}
+
+/** Checks whether a schema value is a leaf created by `defineChannel` */
+function isChannel(value: unknown): value is ChannelDefinition<KeyDefinition, unknown> {
+	return typeof value === "object" && value !== null && runtimeChannelSymbol in value
+}
+
+/** Checks whether a schema value is a leaf: a key definition array, a `defineKey` or a `defineChannel` leaf */
+function isLeafNode(value: unknown): value is LeafNode {
+	return Array.isArray(value) || isTypedKey(value) || isChannel(value)
+}
+
+/** Returns the key definition array of a leaf node, plain, `defineKey` or `defineChannel` */
+function getLeafDefinition(value: LeafNode): KeyDefinition {
+	return isTypedKey(value) || isChannel(value) ? value._definition : (value as KeyDefinition)
+}
+
+/** Returns the key prefix a schema brought along when it was mounted with `mount`, if any */
+function getMountPrefix(value: object): ReadonlyArray<string> {
+	return (value as { [runtimeMountSymbol]?: ReadonlyArray<string> })[runtimeMountSymbol] ?? []
+}
+
+/** Returns the TTL policy attached to a schema node by `withTtl`, if any */
+function getTtlPolicy(value: object): TtlPolicy | undefined {
+	return (value as Partial<WithTtl>)[runtimeTtlSymbol]
+}
+
+/** Checks whether a schema value is a level created by `parameterize` */
+function isParameterized(value: unknown): value is Parameterized<any, any> {
+	return typeof value === "object" && value !== null && runtimeParameterizedSymbol in value
+}
+
+// --- Schema Traversal ---
+
+/**
+ * A leaf of the schema with its full key template kept symbolic (placeholders are not resolved).
+ * `parts` mirrors the `fullPathDefinition` a leaf builder would use if every path parameter were still a placeholder.
+ */
+interface LeafTemplate {
+	readonly path: ReadonlyArray<string> // Schema object keys leading to the leaf (including the leaf key itself)
+	readonly parts: ReadonlyArray<TemplatePart>
+	readonly node: LeafNode // The leaf's schema value (its definition ends `parts`)
+	readonly ttl?: TtlPolicy // Own or inherited `withTtl` policy
+}
+
+/** The path parameters of a `hashTag(parameterize(...))` level, rendered together inside one `{...}` */
+interface HashTagGroup {
+	readonly hashTag: ReadonlyArray<Placeholder<any, any>>
+}
+
+/** A part of a leaf template: static text, a placeholder or a hash-tagged group of path parameters */
+type TemplatePart = KeyDefinitionPart | HashTagGroup
+
+/** Counts the hash tags of a template (tagged placeholders and tagged levels alike) */
+function countHashTags(parts: ReadonlyArray<TemplatePart>): number {
+	let count = 0
+	for (const part of parts) {
+		if (typeof part === "string") {
+			continue
+		}
+		if (isPlaceholder(part)) {
+			count += part._hashTag ? 1 : 0
+		} else {
+			count += 1 + countHashTags(part.hashTag)
+		}
+	}
+	return count
+}
+
+/**
+ * Collects every leaf template of a compiled schema, so introspection sees exactly the leaves the builders were
+ * compiled from (`compileSchemaLevel` is the only walk over the schema itself). Compiles deferred levels.
+ */
+function collectLeafTemplates(level: CompiledLevel): LeafTemplate[] {
+	return level.entries.flatMap((entry) => {
+		if (entry.kind === "leaf") {
+			return [entry.template]
+		}
+		// Skipped entries are reported by `instantiateLevel`
+		return entry.kind === "skipped" ? [] : collectLeafTemplates(entry.level)
+	})
+}
+
+// --- Strict Validation ---
+
+/**
+ * Rejects schema entries that aren't key definitions, `parameterize` levels or nested schemas
+ * (`instantiateLevel` skips them, parameterized levels only once they are used).
+ */
+function assertStrictSchema(level: CompiledLevel, schemaPath: ReadonlyArray<string> = []): void {
+	for (const entry of level.entries) {
+		const path = [...schemaPath, entry.key]
+		if (entry.kind === "skipped") {
+			throw new InvalidSchemaError(
+				path.join("."),
+				entry.valueType === "undefined"
+					? "the value is undefined"
+					: `expected a key definition, a parameterize level or a nested schema, got ${entry.valueType}`
+			)
+		}
+		if (entry.kind !== "leaf") {
+			assertStrictSchema(entry.level, path) // Leaves are checked on their full template, see `assertStrictLeaf`
+		}
+	}
+}
+
+/** Rejects empty static parts, static parts containing the separator and empty or repeated placeholder names */
+function assertStrictLeaf(leaf: LeafTemplate, separator: string): void {
+	const path = leaf.path.join(".")
+	const names = new Set<string>()
+	for (const part of leaf.parts) {
+		if (typeof part === "string") {
+			if (part === "") {
+				throw new InvalidSchemaError(path, "static parts can't be empty")
+			}
+			if (separator !== "" && part.includes(separator)) {
+				throw new InvalidSchemaError(path, `static part "${part}" contains the separator "${separator}"`)
+			}
+			continue
+		}
+		for (const placeholder of isPlaceholder(part) ? [part] : part.hashTag) {
+			if (placeholder._name === "") {
+				throw new InvalidSchemaError(path, "placeholder names can't be empty")
+			}
+			if (names.has(placeholder._name)) {
+				throw new InvalidSchemaError(path, `placeholder "${placeholder._name}" appears more than once in the key`)
+			}
+			names.add(placeholder._name)
+		}
+	}
+}
+
+// --- Compiled Schema ---
+
+/** A step of a compiled leaf: a run of static parts joined once, or a placeholder filled on every build */
+type CompiledStep =
+	| { readonly kind: "static"; readonly text: string; readonly glob: string }
+	| { readonly kind: "placeholder"; readonly placeholder: Placeholder<any, any> }
+
+/**
+ * A schema level compiled once at `defineSchema` time, instantiated into builders for every view. In lazy mode
+ * the levels below are compiled on first use, reading `level` (or `computesTtl`) compiles them.
+ */
+interface CompiledLevel {
+	readonly mountPrefix: ReadonlyArray<string> // Key prefix brought along by `mount`, rendered right below this level
+	readonly entries: ReadonlyArray<CompiledEntry>
+	readonly computesTtl: boolean // Some leaf below computes its TTL from the path parameters
+}
+
+/** What `compileSchemaLevel` needs from the builder options */
+interface CompileOptions {
+	readonly separator: string
+	readonly lazy: boolean // Defer the levels below to their first use, see `KeyBuilderOptions.lazy`
+	readonly checkLeaf: (leaf: LeafTemplate) => void // Throws for invalid leaves, called as each leaf is compiled
+}
+
+/** A leaf of a compiled level */
+interface CompiledLeaf {
+	readonly kind: "leaf"
+	readonly key: string
+	readonly definition: KeyDefinition // Kept for error messages and leaf templates
+	readonly node: LeafNode // The leaf's schema value, see `LeafTemplate.node`
+	readonly steps: ReadonlyArray<CompiledStep>
+	readonly takesArgs: boolean // Whether the local definition has placeholders
+	readonly hashTagged: boolean // Whether a placeholder of the local definition is a hash tag
+	readonly meta: { readonly redisType?: RedisDataType; readonly codec?: ValueCodec<any>; readonly channel?: true }
+	readonly ttl: TtlPolicy | undefined // Own policy, or the one of the closest enclosing `withTtl` level
+	readonly path: string // Dotted schema path, reported by errors
+	readonly template: LeafTemplate // Full template, path parameters of the levels above included
+}
+
+/** A `parameterize` level of a compiled level */
+interface CompiledParameterized {
+	readonly kind: "parameterized"
+	readonly key: string
+	readonly segment: PrefixSegment // The key as a prefix segment of the level below
+	readonly placeholders: ReadonlyArray<Placeholder<any, any>>
+	readonly hashTag: boolean
+	readonly level: CompiledLevel
+	readonly path: string
+}
+
+type CompiledEntry =
+	| CompiledLeaf
+	| CompiledParameterized
+	| { readonly kind: "nested"; readonly key: string; readonly segment: PrefixSegment; readonly level: CompiledLevel }
+	| { readonly kind: "skipped"; readonly key: string; readonly valueType: string } // `typeof` the skipped value
+
+/** What the builders of a compiled level are instantiated for */
+interface LevelView {
+	readonly prefix: RenderedPrefix // Segments resolved above the level (static keys, path parameters)
+	readonly patternMode: boolean // Set once a `.pattern(...)` level was entered: every key below is rendered as a glob
+	readonly pathArgs: Readonly<Record<string, unknown>> // Path parameters resolved so far (computed TTLs see them)
+	readonly resolvePrefix: PrefixResolver // Key prefix of the view, evaluated on every key build
+	readonly lazy: boolean // Builders are created on first access, see `KeyBuilderOptions.lazy`
+}
+
+/** The prefix segments of a level view, rendered once for all of its leaves (see `extendPrefix`) */
+interface RenderedPrefix {
+	readonly segments: ReadonlyArray<PrefixSegment>
+	readonly text: string
+	readonly hashTagSegment: PrefixSegment | undefined // Hash tag resolved by a parameterized level higher up, if any
+}
+
+/** Compiles the static text runs of a key definition into single steps */
+function compileSteps(definition: KeyDefinition, separator: string): CompiledStep[] {
+	const steps: CompiledStep[] = []
+	let run: string[] = []
+	const flush = () => {
+		if (run.length > 0) {
+			steps.push({ kind: "static", text: run.join(separator), glob: run.map(escapeGlob).join(escapeGlob(separator)) })
+			run = []
+		}
+	}
+	for (const part of definition) {
+		if (typeof part === "string") {
+			run.push(part)
+		} else {
+			flush()
+			steps.push({ kind: "placeholder", placeholder: part })
+		}
+	}
+	flush()
+	return steps
+}
+
+/** Memoizes a computation, deferred to the first call unless `deferred` is false */
+function memoize<T>(compute: () => T, deferred = true): () => T {
+	let value = deferred ? undefined : compute()
+	return () => {
+		value ??= compute()
+		return value
+	}
+}
+
+/**
+ * Compiles a schema level (and everything below it) into the shape `instantiateLevel` turns into builders.
+ * Every type check and symbol lookup on the schema happens here, once, instead of on every key build.
+ */
+function compileSchemaLevel(
+	schemaLevel: NestedSchema,
+	options: CompileOptions,
+	schemaPath: ReadonlyArray<string> = [],
+	inheritedTtl?: TtlPolicy,
+	templatePrefix: ReadonlyArray<TemplatePart> = [] // Template parts of the levels above
+): CompiledLevel {
+	const entries: CompiledEntry[] = []
+	const mountPrefix = getMountPrefix(schemaLevel)
+	const keyPrefix = [...templatePrefix, ...mountPrefix]
+
+	for (const key in schemaLevel) {
+		if (!Object.prototype.hasOwnProperty.call(schemaLevel, key)) {
+			continue
+		}
+		const value: NestedSchema[string] | undefined = schemaLevel[key]
+		const path = [...schemaPath, key]
+
+		if (value === undefined) {
+			// Reported (and skipped) whenever the level is instantiated, `strict` builders reject it up front
+			entries.push({ kind: "skipped", key, valueType: "undefined" })
+		} else if (isParameterized(value)) {
+			const placeholders = Array.isArray(value._placeholders) ? value._placeholders : [value._placeholders]
+			const hashTag = value._hashTag === true
+			const paramParts: ReadonlyArray<TemplatePart> = hashTag ? [{ hashTag: placeholders }] : placeholders
+			const level = memoize(
+				() =>
+					compileSchemaLevel(value._schema, options, path, getTtlPolicy(value) ?? inheritedTtl, [
+						...keyPrefix,
+						key,
+						...paramParts,
+					]),
+				options.lazy
+			)
+			entries.push({
+				kind: "parameterized",
+				key,
+				segment: staticSegment(key),
+				placeholders,
+				hashTag,
+				get level() {
+					return level()
+				},
+				path: path.join("."),
+			})
+		} else if (isLeafNode(value)) {
+			const definition = getLeafDefinition(value)
+			// The leaf's own TTL policy wins over the inherited one, channels have none
+			const ttl = isChannel(value) ? undefined : (getTtlPolicy(value) ?? inheritedTtl)
+			const template: LeafTemplate = { path, parts: [...keyPrefix, ...definition], node: value, ttl }
+			options.checkLeaf(template)
+			entries.push({
+				kind: "leaf",
+				key,
+				definition,
+				node: value,
+				steps: compileSteps(definition, options.separator),
+				takesArgs: definition.some(isPlaceholder),
+				hashTagged: definition.some((part) => isPlaceholder(part) && part._hashTag === true),
+				meta: isTypedKey(value)
+					? { redisType: value._redisType, codec: value._codec }
+					: isChannel(value)
+						? { channel: true, codec: value._codec }
+						: {},
+				ttl,
+				path: path.join("."),
+				template,
+			})
+		} else if (typeof value === "object" && value !== null) {
+			const level = memoize(
+				() =>
+					compileSchemaLevel(value as NestedSchema, options, path, getTtlPolicy(value) ?? inheritedTtl, [
+						...keyPrefix,
+						key,
+					]),
+				options.lazy
+			)
+			entries.push({
+				kind: "nested",
+				key,
+				segment: staticSegment(key),
+				get level() {
+					return level()
+				},
+			})
+		} else {
+			entries.push({ kind: "skipped", key, valueType: typeof value })
+		}
+	}
+
+	let computesTtl: boolean | undefined
+	return {
+		mountPrefix,
+		entries,
+		// Looks into the levels below, so they are only compiled once a view needs to know
+		get computesTtl() {
+			computesTtl ??= entries.some((entry) =>
+				entry.kind === "leaf" ? typeof entry.ttl === "function" : entry.kind !== "skipped" && entry.level.computesTtl
+			)
+			return computesTtl
+		},
+	}
+}
+
+// --- Batches ---
+
+/** Builds every item of a batch, throwing the first error unless `collectErrors` is set */
+function buildBatch<T>(
+	argsList: ReadonlyArray<Record<string, unknown> | undefined>,
+	build: (args: Record<string, unknown> | undefined) => T,
+	options?: BatchOptions
+): T[] | BatchResult<T> {
+	if (!Array.isArray(argsList)) {
+		throw new RedisKeyBuilderError("[RedisKeyBuilder] many expects an array of arguments.")
+	}
+	if (!options?.collectErrors) {
+		const results: T[] = new Array(argsList.length)
+		for (let index = 0; index < argsList.length; index++) {
+			results[index] = build(argsList[index])
+		}
+		return results
+	}
+	const batch: BatchResult<T> = { results: new Array(argsList.length), errors: [] }
+	for (let index = 0; index < argsList.length; index++) {
+		try {
+			batch.results[index] = build(argsList[index])
+		} catch (error) {
+			// Only invalid items are collected, anything else (e.g. a throwing prefix function) is a bug to surface
+			if (!(error instanceof RedisKeyBuilderError)) {
+				throw error
+			}
+			batch.results[index] = undefined
+			batch.errors.push({ index, error })
+		}
+	}
+	return batch
+}
+
+// --- Key Builder Implementation ---
+
+/**
+ * Creates a Redis key builder factory.
+ * A literal separator and a static prefix are captured, so builders return template literal key types.
+ * @param options Configuration options like the separator.
+ * @returns A `defineSchema` function bound to the configured options.
+ */
+export function createKeyBuilder<
+	const Separator extends string = ":",
+	const Prefix extends KeyPrefix = "",
+	const Escape extends Exclude<EscapePolicy, ValueEncoder> = "none",
+	const LengthPolicy extends LengthLimitPolicy = "throw",
+>(
+	options?: Omit<KeyBuilderOptions, "separator" | "prefix" | "escape" | "onLengthExceeded"> & {
+		separator?: Separator
+		prefix?: Prefix
+		escape?: Escape | ValueEncoder // A custom encoder leaves `Escape` at its constraint (keys aren't verbatim)
+		onLengthExceeded?: LengthPolicy // `"hash"` may replace any placeholder value (keys aren't verbatim)
+	}
+) {
+	// Use nullish coalescing for default value (safe for strictNullChecks)
+	const separator = options?.separator ?? ":"
+	const escapePolicy = options?.escape ?? "none"
+	const valueEncoder: ValueEncoder | undefined =
+		escapePolicy === "encode"
+			? createPercentEncoder(separator)
+			: typeof escapePolicy === "object"
+				? escapePolicy
+				: undefined
+	const resolveGlobalPrefix = toPrefixResolver(options?.prefix)
+	const strict = options?.strict ?? false
+	const viewCacheSize = options?.viewCacheSize ?? 16
+	const lazy = options?.lazy ?? false
+	const globSeparator = escapeGlob(separator)
+	const maxKeyLength = options?.maxKeyLength
+	const maxSegmentLength = options?.maxSegmentLength
+	const lengthPolicy = options?.onLengthExceeded ?? "throw"
+	assertLengthLimit(maxKeyLength, "maxKeyLength")
+	for (const [name, limit] of typeof maxSegmentLength === "object"
+		? Object.entries(maxSegmentLength)
+		: [["", maxSegmentLength] as const]) {
+		assertLengthLimit(limit, name === "" ? "maxSegmentLength" : `maxSegmentLength.${name}`)
+	}
+	// Keys over `maxKeyLength` get placeholder segments hashed, so builders note where those are
+	const hashesKeys = maxKeyLength !== undefined && lengthPolicy === "hash"
+
+	/** Validates a placeholder value and converts it into its key segment according to the escape policy */
+	function serializeValue(
+		value: unknown,
+		placeholder: Placeholder<any, any>,
+		describeKey: () => string, // Renders the key template for error messages, only called on failure
+		schemaPath: string
+	): string {
+		const placeholderName = placeholder._name
+		const invalidReason = checkPlaceholderValue(placeholder, value)
+		if (invalidReason !== undefined) {
+			throw new InvalidArgumentError(
+				placeholderName,
+				describeKey(),
+				value,
+				invalidReason,
+				placeholder._kind,
+				schemaPath
+			)
+		}
+		let raw: string
+		try {
+			raw = placeholder._codec.encode(value)
+		} catch (error) {
+			// Custom codecs validate by throwing plain errors, their message is the reason
+			throw new InvalidArgumentError(
+				placeholderName,
+				describeKey(),
+				value,
+				error instanceof Error ? error.message : String(error),
+				placeholder._kind,
+				schemaPath
+			)
+		}
+		if (escapePolicy === "reject" && separator !== "" && raw.includes(separator)) {
+			throw new UnsafeArgumentError(placeholderName, describeKey(), raw, separator, schemaPath)
+		}
+		if (!valueEncoder) {
+			return maxSegmentLength === undefined ? raw : limitSegment(raw, placeholder, describeKey, schemaPath)
+		}
+		const encoded = valueEncoder.encode(raw)
+		// Custom encoders are trusted to be reversible, but not to be separator-safe
+		if (separator !== "" && encoded.includes(separator)) {
+			throw new UnsafeArgumentError(placeholderName, describeKey(), raw, separator, schemaPath)
+		}
+		return maxSegmentLength === undefined ? encoded : limitSegment(encoded, placeholder, describeKey, schemaPath)
+	}
+
+	/** Applies `onLengthExceeded` to a segment longer than the placeholder's `maxSegmentLength` */
+	function limitSegment(
+		segment: string,
+		placeholder: Placeholder<any, any>,
+		describeKey: () => string,
+		schemaPath: string
+	): string {
+		const limit =
+			typeof maxSegmentLength === "object"
+				? Object.prototype.hasOwnProperty.call(maxSegmentLength, placeholder._name)
+					? maxSegmentLength[placeholder._name]
+					: undefined
+				: maxSegmentLength
+		if (limit === undefined || segment.length <= limit) {
+			return segment
+		}
+		if (lengthPolicy === "hash") {
+			return sha1Hex(segment).slice(0, Math.min(hashedSegmentLength, limit))
+		}
+		return reportLength(
+			new KeyLengthError(describeKey(), schemaPath, segment.length, limit, placeholder._name),
+			segment
+		)
+	}
+
+	/**
+	 * Applies `onLengthExceeded` to a key longer than `maxKeyLength`.
+	 * With `"hash"`, the longest placeholder and path parameter segments (`hashable` indexes of `keyParts`) are hashed
+	 * until the key fits.
+	 */
+	function limitKey(
+		key: string,
+		keyParts: string[],
+		hashable: ReadonlyArray<number> | undefined,
+		describeKey: () => string,
+		schemaPath: string
+	): string {
+		const limit = maxKeyLength as number
+		if (hashable === undefined) {
+			return reportLength(new KeyLengthError(describeKey(), schemaPath, key.length, limit), key)
+		}
+		let length = key.length
+		for (const index of [...hashable].sort((a, b) => (keyParts[b] as string).length - (keyParts[a] as string).length)) {
+			const segment = keyParts[index] as string
+			if (length <= limit || segment.length <= hashedSegmentLength) {
+				break
+			}
+			keyParts[index] = sha1Hex(segment).slice(0, hashedSegmentLength)
+			length -= segment.length - hashedSegmentLength
+		}
+		if (length > limit) {
+			// Static text (and hash tags) alone are too long, hashing can't help
+			throw new KeyLengthError(describeKey(), schemaPath, length, limit)
+		}
+		return keyParts.join(separator)
+	}
+
+	/** Throws the length error, or (policy `"warn"`) logs it and keeps the over-long value */
+	function reportLength(error: KeyLengthError, value: string): string {
+		if (lengthPolicy !== "warn") {
+			throw error
+		}
+		// biome-ignore lint/suspicious/noConsole: We want to show this
+		console.warn(error.message)
+		return value
+	}
+
+	/** Appends segments to a rendered prefix, only rendering the new ones (wildcards show up as `*`) */
+	function extendPrefix(prefix: RenderedPrefix, segments: ReadonlyArray<PrefixSegment>): RenderedPrefix {
+		let { text, hashTagSegment } = prefix
+		for (const [index, segment] of segments.entries()) {
+			text = prefix.segments.length === 0 && index === 0 ? segment.text : text + separator + segment.text
+			hashTagSegment ??= segment.hashTag === undefined ? undefined : segment
+		}
+		return { segments: [...prefix.segments, ...segments], text, hashTagSegment }
+	}
+
+	/** Wraps the path parameter segments of a `hashTag(parameterize(...))` level into a single tag segment */
+	function hashTagSegment(segments: ReadonlyArray<PrefixSegment>, owner?: Placeholder<any, any>): PrefixSegment {
+		const text = segments.map((segment) => segment.text).join(separator)
+		const glob = segments.map((segment) => segment.glob).join(globSeparator)
+		const isComplete = !segments.includes(wildcardSegment)
+		return { text: `{${text}}`, glob: `{${glob}}`, hashTag: isComplete ? text : undefined, hashTagOwner: owner }
+	}
+
+	/** Builds the key builders of a compiled level for one view (key prefix, resolved path parameters) */
+	function instantiateLevel(level: CompiledLevel, view: LevelView): KeyBuilderResult<any> {
+		const levelResult: Record<string, unknown> = {}
+		// A schema mounted with `mount(...)` brings its own key prefix, rendered right below the mount point
+		const prefix =
+			level.mountPrefix.length > 0 ? extendPrefix(view.prefix, level.mountPrefix.map(staticSegment)) : view.prefix
+
+		const materialize = (entry: Exclude<CompiledEntry, { kind: "skipped" }>): unknown => {
+			if (entry.kind === "parameterized") {
+				return instantiateParameterized(entry, view, prefix)
+			}
+			if (entry.kind === "leaf") {
+				return instantiateLeaf(entry, view, prefix)
+			}
+			// Static nesting: the key becomes part of the prefix of the level below
+			return instantiateLevel(entry.level, { ...view, prefix: extendPrefix(prefix, [entry.segment]) })
+		}
+		// Entries of a lazy level that weren't accessed yet
+		const pending = new Map<string, Exclude<CompiledEntry, { kind: "skipped" }>>()
+
+		for (const entry of level.entries) {
+			const key = entry.key
+			if (entry.kind !== "skipped") {
+				if (view.lazy) {
+					// Reserved right away so the level keeps the key order of eager mode
+					levelResult[key] = undefined
+					pending.set(key, entry)
+				} else {
+					levelResult[key] = materialize(entry)
+				}
+			} else {
+				const pathSoFar = extendPrefix(prefix, [staticSegment(key)]).text
+				if (entry.valueType === "undefined") {
+					if (process.env.NODE_ENV === "development") {
+						// biome-ignore lint/suspicious/noConsole: We want to show this
+						console.warn(
+							`[RedisKeyBuilder] Encountered 'undefined' value in schema at path "${pathSoFar}". Skipping key.`
+						)
+					}
+				} else {
+					// biome-ignore lint/suspicious/noConsole: We want to show this
+					console.warn(
+						`[RedisKeyBuilder] Encountered unexpected value type in schema at path "${pathSoFar}". Skipping.`
+					)
+				}
+				// `strict` builders reject these up front, see `assertStrictSchema`
+			}
+		}
+		if (!view.lazy) {
+			return levelResult as KeyBuilderResult<any>
+		}
+
+		const materializePending = (key: string | symbol) => {
+			const entry = typeof key === "string" ? pending.get(key) : undefined
+			if (entry) {
+				pending.delete(key as string)
+				levelResult[entry.key] = materialize(entry)
+			}
+		}
+		// Every way of reading a property goes through `get` or `getOwnPropertyDescriptor` (spreads, `Object.entries`)
+		return new Proxy(levelResult, {
+			get: (target, key, receiver) => {
+				materializePending(key)
+				return Reflect.get(target, key, receiver)
+			},
+			getOwnPropertyDescriptor: (target, key) => {
+				materializePending(key)
+				return Reflect.getOwnPropertyDescriptor(target, key)
+			},
+			set: (target, key, value, receiver) => {
+				pending.delete(key as string)
+				return Reflect.set(target, key, value, receiver)
+			},
+			deleteProperty: (target, key) => {
+				pending.delete(key as string)
+				return Reflect.deleteProperty(target, key)
+			},
+		}) as KeyBuilderResult<any>
+	}
+
+	/** Creates the `(pathArgs) => view` function of a `parameterize` level, plus its partial `.pattern` form */
+	function instantiateParameterized(
+		entry: CompiledParameterized,
+		view: LevelView,
+		parentPrefix: RenderedPrefix
+	): unknown {
+		const levelPrefix = extendPrefix(parentPrefix, [entry.segment])
+		const viewCache = new Map<string, KeyBuilderResult<any>>()
+		const patternViewCache = new Map<string, KeyBuilderResult<any>>()
+
+		// Resolves the path parameters (missing ones become wildcards when `asPattern` is set)
+		const resolveLevel = (paramArgs: Record<string, unknown> | undefined, asPattern: boolean) => {
+			// Read when called rather than when the level is created, since it compiles the levels below in lazy mode
+			const computesTtl = entry.level.computesTtl
+			// Views only depend on the rendered path parameters, unless a TTL below is computed from the arguments
+			const canCache = viewCacheSize > 0 && !computesTtl
+			const paramValues: PrefixSegment[] = []
+			for (const ph of entry.placeholders) {
+				// Access argument safely (paramArgs might not have the key), falling back to the default
+				// (not in patterns: a left-out path parameter matches any value, the default included)
+				const argValue = paramArgs?.[ph._name] ?? (asPattern ? undefined : ph._default)
+				// Strict check for null/undefined
+				if (argValue === undefined || argValue === null) {
+					if (asPattern) {
+						paramValues.push(ph._hashTag ? hashTagSegment([wildcardSegment]) : wildcardSegment)
+						continue
+					}
+					throw new MissingArgumentError(ph._name, levelPrefix.text, entry.path, ph._kind, "parameterize")
+				}
+				const segment = serializeValue(argValue, ph, () => levelPrefix.text, entry.path)
+				paramValues.push(
+					ph._hashTag
+						? hashTagSegment([staticSegment(segment)], ph)
+						: { text: segment, glob: escapeGlob(segment), hashable: true }
+				)
+			}
+
+			// Wildcards and literal `*` values differ in their glob rendering, so globs identify pattern views
+			const cacheKey = paramValues.map((segment) => (asPattern ? segment.glob : segment.text)).join("\u0000")
+			const cache = asPattern ? patternViewCache : viewCache
+			const cached = canCache ? cache.get(cacheKey) : undefined
+			if (cached) {
+				return cached
+			}
+			const result = instantiateLevel(entry.level, {
+				// Prefix of the next level: current + static key + resolved params
+				prefix: extendPrefix(
+					levelPrefix,
+					entry.hashTag ? [hashTagSegment(paramValues, entry.placeholders[0])] : paramValues
+				),
+				patternMode: view.patternMode || asPattern,
+				// Only computed TTLs read them, and copying the arguments shows up when views are built for many values
+				pathArgs: computesTtl ? { ...view.pathArgs, ...paramArgs } : view.pathArgs,
+				resolvePrefix: view.resolvePrefix,
+				lazy: view.lazy,
+			})
+			if (canCache) {
+				// Bounded, the oldest view makes room first
+				if (cache.size >= viewCacheSize) {
+					const oldest = cache.keys().next()
+					if (!oldest.done) {
+						cache.delete(oldest.value)
+					}
+				}
+				cache.set(cacheKey, result)
+			}
+			return result
+		}
+
+		// `.with(...)`: the bound path parameters are validated now and merged into the arguments of every access
+		const bindLevel = (bound: Record<string, unknown>): unknown => {
+			for (const ph of entry.placeholders) {
+				const value = bound[ph._name]
+				if (value !== undefined && value !== null) {
+					serializeValue(value, ph, () => levelPrefix.text, entry.path)
+				}
+			}
+			return Object.assign((paramArgs?: Record<string, unknown>) => resolveLevel({ ...bound, ...paramArgs }, false), {
+				pattern: (paramArgs?: Record<string, unknown>) => resolveLevel({ ...bound, ...paramArgs }, true),
+				many: (argsList: ReadonlyArray<Record<string, unknown>>, options?: BatchOptions) =>
+					buildBatch(argsList, (paramArgs) => resolveLevel({ ...bound, ...paramArgs }, false), options),
+				with: (more: Record<string, unknown>) => bindLevel({ ...bound, ...more }),
+			})
+		}
+
+		return Object.assign((paramArgs: Record<string, unknown>) => resolveLevel(paramArgs, false), {
+			pattern: (paramArgs?: Record<string, unknown>) => resolveLevel(paramArgs, true),
+			many: (argsList: ReadonlyArray<Record<string, unknown>>, options?: BatchOptions) =>
+				buildBatch(argsList, (paramArgs) => resolveLevel(paramArgs, false), options),
+			with: bindLevel,
+		})
+	}
+
+	/** Creates the builder function of a compiled leaf, with its `.pattern`/`.ttl` helpers and value metadata */
+	function instantiateLeaf(leaf: CompiledLeaf, view: LevelView, prefix: RenderedPrefix): unknown {
+		const { steps, path: leafPath } = leaf
+		const { patternMode, resolvePrefix, pathArgs } = view
+		const { text: prefixText, hashTagSegment: prefixHashTagSegment } = prefix
+		const hasPrefix = prefix.segments.length > 0
+		// With the `"hash"` policy, path parameters are pushed one by one so they can be hashed too
+		const splitsPrefix = hashesKeys && prefix.segments.some((segment) => segment.hashable)
+		// Keys without hash tags can be built by `.many` as plain concatenations, see `createMany`
+		const concatenates = !patternMode && prefixHashTagSegment === undefined && !leaf.hashTagged
+		// Glob form of the prefix, rendered on first use by a pattern
+		let prefixGlob: string | undefined
+
+		// Human readable template used in error messages, e.g. "user:u-1:orders:orderId", rendered on first use
+		let keyPathHint: string | undefined
+		const describeKey = (): string => {
+			keyPathHint ??= [
+				...(hasPrefix ? [prefixText] : []),
+				...leaf.definition.map((part) => (typeof part === "string" ? part : part._name)),
+			].join(separator)
+			return keyPathHint
+		}
+
+		// `asPattern` turns missing arguments into `*`, any glob output escapes the literal text
+		const builder = (
+			args: Record<string, unknown> | undefined,
+			asPattern: boolean,
+			prefixSegments = resolvePrefix() // Evaluated once per batch by `.many`
+		): string => {
+			const glob = patternMode || asPattern
+			// The key prefix comes first, evaluated now since it may be dynamic
+			const keyParts: string[] = glob ? prefixSegments.map(escapeGlob) : prefixSegments.slice()
+			// Indexes of the `keyParts` that may be hashed to fit `maxKeyLength`
+			const hashable: number[] | undefined = hashesKeys && !glob ? [] : undefined
+			if (hashable && splitsPrefix) {
+				for (const segment of prefix.segments) {
+					if (segment.hashable) {
+						hashable.push(keyParts.length)
+					}
+					keyParts.push(segment.text)
+				}
+			} else if (hasPrefix && glob) {
+				prefixGlob ??= prefix.segments.map((segment) => segment.glob).join(globSeparator)
+				keyParts.push(prefixGlob)
+			} else if (hasPrefix) {
+				keyParts.push(prefixText)
+			}
+			let expectedHashTag = prefixHashTagSegment?.hashTag
+			let hashTagOwner = prefixHashTagSegment?.hashTagOwner
+			// Name of the first optional placeholder that was left out, later ones must be left out too
+			let omittedName: string | undefined
+			for (const step of steps) {
+				if (step.kind === "static") {
+					keyParts.push(glob ? step.glob : step.text)
+					continue
+				}
+				const placeholder = step.placeholder
+				// Look up value in potentially undefined `args` object, falling back to the default
+				// (not in patterns: a left-out placeholder matches any value, the default included)
+				const argValue = args?.[placeholder._name] ?? (asPattern ? undefined : placeholder._default)
+				// Strict check for missing required arguments (TypeScript should catch this, but good runtime check)
+				if (argValue === undefined || argValue === null) {
+					if (asPattern && isOmittable(placeholder)) {
+						// `*` would require the segment, dropping it would forbid it: no single glob matches both
+						throw new InvalidArgumentError(
+							placeholder._name,
+							describeKey(),
+							argValue,
+							"an optional segment can't be left out of a pattern, pass a value or build the pattern of each key length",
+							placeholder._kind,
+							leafPath
+						)
+					}
+					if (asPattern) {
+						keyParts.push(placeholder._hashTag ? "{*}" : "*")
+						continue
+					}
+					if (placeholder._optional) {
+						// Left out: the segment is dropped (only trailing placeholders can be, see `defineSchema`)
+						omittedName ??= placeholder._name
+						continue
+					}
+					throw new MissingArgumentError(placeholder._name, describeKey(), leafPath, placeholder._kind, "local")
+				}
+				if (omittedName !== undefined) {
+					// "a:c" can't tell whether `b` or `c` was left out
+					throw new InvalidArgumentError(
+						placeholder._name,
+						describeKey(),
+						argValue,
+						`can't be given while "${omittedName}" is left out`,
+						placeholder._kind,
+						leafPath
+					)
+				}
+				// Convert argument value to string for the key
+				const segment = serializeValue(argValue, placeholder, describeKey, leafPath)
+				const rendered = glob ? escapeGlob(segment) : segment
+				if (placeholder._hashTag) {
+					expectedHashTag = segment
+					hashTagOwner = placeholder
+					keyParts.push(`{${rendered}}`)
+				} else {
+					hashable?.push(keyParts.length)
+					keyParts.push(rendered)
+				}
+			}
+			const builtKey = keyParts.join(glob ? globSeparator : separator)
+			// Redis hashes the *first* `{...}` of a key, so a brace in an earlier value would silently move the slot
+			if (!glob && expectedHashTag !== undefined && getHashTag(builtKey) !== expectedHashTag) {
+				throw new InvalidArgumentError(
+					hashTagOwner?._name ?? "",
+					describeKey(),
+					expectedHashTag,
+					`key "${builtKey}" would not be hashed on its hash tag "{${expectedHashTag}}" (check for braces in placeholder values)`,
+					hashTagOwner?._kind,
+					leafPath
+				)
+			}
+			if (!glob && maxKeyLength !== undefined && builtKey.length > maxKeyLength) {
+				return limitKey(builtKey, keyParts, hashable, describeKey, leafPath)
+			}
+			return builtKey
+		}
+		const pattern = (args?: Record<string, unknown>): string => builder(args, true)
+		// `.many(...)`, optionally with arguments bound by `.with`
+		const createMany =
+			(bound?: Record<string, unknown>) =>
+			(argsList: ReadonlyArray<Record<string, unknown> | undefined>, options?: BatchOptions) => {
+				const prefixSegments = resolvePrefix()
+				const buildItem = (args: Record<string, unknown> | undefined) =>
+					builder(bound ? { ...bound, ...args } : args, false, prefixSegments)
+				if (!concatenates) {
+					return buildBatch(argsList, buildItem, options)
+				}
+				// The prefixes are rendered once, every item appends its compiled steps to them
+				const head = hasPrefix ? [...prefixSegments, prefixText].join(separator) : prefixSegments.join(separator)
+				const headIsEmpty = !hasPrefix && prefixSegments.length === 0
+				return buildBatch(
+					argsList,
+					(args) => {
+						let key = head
+						let isEmpty = headIsEmpty
+						for (const step of steps) {
+							let text: string
+							if (step.kind === "static") {
+								text = step.text
+							} else {
+								const placeholder = step.placeholder
+								const value = args?.[placeholder._name] ?? bound?.[placeholder._name] ?? placeholder._default
+								if (value === undefined || value === null) {
+									return buildItem(args) // Left out or missing: the builder drops the segment or reports it
+								}
+								text = serializeValue(value, placeholder, describeKey, leafPath)
+							}
+							key = isEmpty ? text : key + separator + text
+							isEmpty = false
+						}
+						// Over-long keys go through `onLengthExceeded`
+						return maxKeyLength !== undefined && key.length > maxKeyLength ? buildItem(args) : key
+					},
+					options
+				)
+			}
+		const many = createMany()
+		const ttl = (args?: Record<string, unknown>): number | undefined => {
+			const ttlPolicy = leaf.ttl
+			if (ttlPolicy === undefined) {
+				return undefined
+			}
+			const duration = typeof ttlPolicy === "function" ? ttlPolicy({ ...pathArgs, ...args }) : ttlPolicy
+			return toMilliseconds(duration, leafPath)
+		}
+
+		// `.with(...)`: the bound arguments are validated now and merged into the arguments of every call
+		const bindLeaf = (bound: Record<string, unknown>): unknown => {
+			for (const step of steps) {
+				if (step.kind === "placeholder") {
+					const value = bound[step.placeholder._name]
+					if (value !== undefined && value !== null) {
+						serializeValue(value, step.placeholder, describeKey, leafPath)
+					}
+				}
+			}
+			return Object.assign(
+				(args?: Record<string, unknown>) => builder({ ...bound, ...args }, false),
+				{
+					pattern: (args?: Record<string, unknown>) => pattern({ ...bound, ...args }),
+					ttl: (args?: Record<string, unknown>) => ttl({ ...bound, ...args }),
+					many: createMany(bound),
+					with: (more: Record<string, unknown>) => bindLeaf({ ...bound, ...more }),
+				},
+				leaf.meta
+			)
+		}
+
+		// Assign the correct function signature based on *local* placeholders
+		const leafBuilder: any = leaf.takesArgs
+			? (args: Record<string, unknown>) => builder(args, false)
+			: () => builder(undefined, false)
+		// Assigned one by one: views of a `parameterize` level create these for every leaf, a fresh object to copy from costs more
+		leafBuilder.pattern = pattern
+		leafBuilder.ttl = ttl
+		leafBuilder.many = many
+		leafBuilder.with = bindLeaf
+		return Object.assign(leafBuilder, leaf.meta)
+	}
+
+	/**
+	 * Defines the key schema and returns a deeply typed object with typesafe key builder functions.
+	 * @param schema The nested schema definition object.
+	 * @template S Captures the literal structure of the input schema for precise typing.
+	 * @returns An object mirroring the schema structure, with builder functions.
+	 */
+	function defineSchema<const S extends NestedSchema>(
+		schema: S & ValidateHashTags<S>
+	): DefinedKeys<S, RootKeyFormat<Separator, Prefix, Escape, LengthPolicy>> {
+		const keys = buildView<S>(schema, resolveGlobalPrefix)
+		if (options?.checkCollisions) {
+			const [collision] = findKeyCollisions(keys)
+			if (collision) {
+				throw new KeyCollisionError(
+					collision.paths,
+					`can collide, e.g. on "${collision.example}" (see findKeyCollisions)`,
+					collision.example
+				)
+			}
+		}
+		return keys as DefinedKeys<S, RootKeyFormat<Separator, Prefix, Escape, LengthPolicy>>
+	}
+
+	/** Validates a leaf on its full template, for what can only be checked across levels */
+	function checkLeaf(leaf: LeafTemplate): void {
+		if (strict) {
+			assertStrictLeaf(leaf, separator)
+		}
+		if (countHashTags(leaf.parts) > 1) {
+			throw new InvalidSchemaError(
+				leaf.path.join("."),
+				"the key contains more than one hash tag, Redis only honors the first one"
+			)
+		}
+		// Segments that may be left out must close the key, otherwise the parts after them would shift
+		const firstOmittable = leaf.parts.findIndex(isOmittable)
+		if (firstOmittable !== -1 && !leaf.parts.slice(firstOmittable).every(isOmittable)) {
+			throw new InvalidSchemaError(
+				leaf.path.join("."),
+				"an optional placeholder is followed by required parts, optional placeholders without default must come last"
+			)
+		}
+	}
+
+	/**
+	 * Compiles a schema, validating its leaves as they are compiled. Lazy builders only compile the top level here,
+	 * the levels below (and their leaves) follow on first use, unless `strict` checks the whole schema up front.
+	 */
+	function compileSchema(schema: NestedSchema): CompiledLevel {
+		// A `withTtl` around the whole schema applies to every leaf
+		const compiled = compileSchemaLevel(schema, { separator, lazy, checkLeaf }, [], getTtlPolicy(schema))
+		if (strict) {
+			assertStrictSchema(compiled) // Walks, and so compiles, every level
+		}
+		return compiled
+	}
+
+	/** Builds the key builders of a schema for one key prefix (`defineSchema`, then `withPrefix` views) */
+	function buildView<S extends NestedSchema>(
+		schema: S,
+		resolvePrefix: PrefixResolver,
+		// Shared by the views of a schema
+		compiled: CompiledLevel = compileSchema(schema),
+		// Collected on first use (parsing, introspection), which compiles the levels lazy builders deferred
+		leaves: () => ReadonlyArray<LeafTemplate> = memoize(() => collectLeafTemplates(compiled))
+	): DefinedKeys<S> {
+		// Start the instantiation with an empty prefix
+		const result = instantiateLevel(compiled, {
+			prefix: { segments: [], text: "", hashTagSegment: undefined },
+			patternMode: false,
+			pathArgs: {},
+			resolvePrefix,
+			lazy,
+		})
+		// Keep the schema reachable for `parseKey`/`matchKey` without exposing it as a (colliding) enumerable key
+		const runtime: SchemaRuntime<S> = {
+			schema,
+			get leaves() {
+				return leaves()
+			},
+			separator,
+			decodeValue: valueEncoder ? valueEncoder.decode : (encoded) => encoded,
+			resolvePrefix,
+			rebuild: (nextResolvePrefix) => buildView(schema, nextResolvePrefix, compiled, leaves),
+			redefine: (nextSchema) => buildView(nextSchema, resolvePrefix),
+		}
+		Object.defineProperty(result, runtimeSchemaSymbol, { value: runtime, enumerable: false })
+		return result as DefinedKeys<S>
+	}
+
+	// Return the main schema definition function
+	return defineSchema
+}
+
+// --- Reverse Parsing ---
+
+/** A leaf template compiled into an anchored regular expression */
+interface LeafMatcher {
+	readonly id: string
+	readonly path: ReadonlyArray<string>
+	readonly regex: RegExp
+	readonly placeholders: ReadonlyArray<Placeholder<any, any>> // In capture group order
+	readonly channel: boolean // Built by a `defineChannel` leaf: only `parseChannel` matches it
+}
+
+/** Escapes every character with a special meaning in regular expressions */
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&")
+}
+
+/**
+ * Compiles a leaf template; each placeholder captures one segment (any text not containing the separator).
+ * Trailing optional placeholders become nested optional groups, so they can only be left out from the end.
+ */
+function compileLeafMatcher(leaf: LeafTemplate, separator: string): LeafMatcher {
+	const escapedSeparator = escapeRegExp(separator)
+	const segmentPattern = `((?:(?!${escapedSeparator})[\\s\\S])*)`
+	const placeholders: Placeholder<any, any>[] = []
+	const toSource = (part: TemplatePart): string => {
+		if (typeof part === "string") {
+			return escapeRegExp(part)
+		}
+		if (isPlaceholder(part)) {
+			placeholders.push(part)
+			return part._hashTag ? `\\{${segmentPattern}\\}` : segmentPattern
+		}
+		return `\\{${part.hashTag.map(toSource).join(escapedSeparator)}\\}`
+	}
+	// `defineSchema` guarantees the omittable placeholders form the tail of the template
+	const omittableStart = leaf.parts.findIndex(isOmittable)
+	const requiredParts = omittableStart === -1 ? leaf.parts : leaf.parts.slice(0, omittableStart)
+	// Sources are computed in key order so capture groups follow `placeholders`
+	const requiredSource = requiredParts.map(toSource).join(escapedSeparator)
+	const optionalSources = omittableStart === -1 ? [] : leaf.parts.slice(omittableStart).map(toSource)
+	const source = optionalSources.reduceRight(
+		(rest, optionalSource, index) =>
+			`(?:${index === 0 && requiredParts.length === 0 ? "" : escapedSeparator}${optionalSource}${rest})?`,
+		""
+	)
+
+	return {
+		id: leaf.path.join("."),
+		path: leaf.path,
+		regex: new RegExp(`^${requiredSource}${source}$`),
+		placeholders,
+		channel: isChannel(leaf.node),
+	}
+}
+
+/** Turns a raw key segment back into the placeholder's value, throwing if the placeholder couldn't have produced it */
+function decodePlaceholderValue(placeholder: Placeholder<any, any>, segment: string): unknown {
+	const details = { placeholder: placeholder._name, expected: placeholder._kind }
+	let value: unknown
+	try {
+		value = placeholder._codec.decode(segment)
+	} catch (error) {
+		// Codecs (custom ones included) throw plain errors, their message is the reason
+		throw new KeyParseError(segment, error instanceof Error ? error.message : String(error), details)
+	}
+	// A value the builder would have rejected can't come from this placeholder
+	const invalidReason = checkPlaceholderValue(placeholder, value)
+	if (invalidReason !== undefined) {
+		throw new KeyParseError(segment, invalidReason, details)
+	}
+	return value
+}
+
+/** Undoes the escape policy for a captured segment, or `undefined` if it isn't validly encoded */
+function decodeSegment(runtime: SchemaRuntime<any>, segment: string): string | undefined {
+	try {
+		return runtime.decodeValue(segment)
+	} catch {
+		return undefined // e.g. a malformed percent sequence in a key we didn't build
+	}
+}
+
+/**
+ * Reads the schema runtimes from a `defineSchema` result (one per merged schema for `merge` results),
+ * compiling the leaf matchers on first use
+ */
+function getSchemaRuntimes(
+	keys: DefinedKeys<any>
+): ReadonlyArray<SchemaRuntime<any> & { matchers: ReadonlyArray<LeafMatcher> }> {
+	const runtime: SchemaRuntime<any> | MergedSchemaRuntime<any> | undefined = keys?.[runtimeSchemaSymbol]
+	if (!runtime) {
+		throw new RedisKeyBuilderError(
+			"[RedisKeyBuilder] Expected the object returned by defineSchema (the root of the built schema)."
+		)
+	}
+	const parts = "parts" in runtime ? runtime.parts : [runtime]
+	for (const part of parts) {
+		part.matchers ??= part.leaves.map((leaf) => compileLeafMatcher(leaf, part.separator))
+	}
+	return parts as ReadonlyArray<SchemaRuntime<any> & { matchers: ReadonlyArray<LeafMatcher> }>
+}
+
+/**
+ * Finds every schema leaf that could have produced the given key.
+ * More than one result means the schema is ambiguous for this key (e.g. `["x", p("id")]` vs `["x", "profile"]`).
+ * @param keys The object returned by `defineSchema`.
+ * @param key A concrete Redis key, e.g. read from `SCAN` or a keyspace notification.
+ * @returns All matches with their schema path and decoded, typed arguments (empty if nothing matches).
+ */
+export function matchKey<S extends NestedSchema>(keys: DefinedKeys<S>, key: string): Array<ParsedKey<S>> {
+	return getSchemaRuntimes(keys).flatMap((runtime) => matchRuntimeKey(runtime, key, false)) as Array<ParsedKey<S>>
+}
+
+/**
+ * Matches a key (or a channel name) against the leaves of one schema runtime
+ * (`matchKey`/`parseChannel` run it for every merged schema)
+ */
+function matchRuntimeKey(
+	runtime: SchemaRuntime<any> & { matchers: ReadonlyArray<LeafMatcher> },
+	key: string,
+	channel: boolean
+): Array<{ id: string; path: ReadonlyArray<string>; args: Record<string, unknown> }> {
+	const matches: Array<{ id: string; path: ReadonlyArray<string>; args: Record<string, unknown> }> = []
+
+	// Templates don't include the key prefix (it may be dynamic), so it is checked and stripped first
+	const prefix = runtime.resolvePrefix()
+	const prefixText = prefix.length > 0 ? `${prefix.join(runtime.separator)}${runtime.separator}` : ""
+	if (!key.startsWith(prefixText)) {
+		return matches
+	}
+	const unprefixedKey = key.slice(prefixText.length)
+
+	for (const matcher of runtime.matchers) {
+		if (matcher.channel !== channel) {
+			continue // Keys and channels live in separate namespaces
+		}
+		const match = matcher.regex.exec(unprefixedKey)
+		if (!match) {
+			continue
+		}
+
+		const args: Record<string, unknown> = {}
+		const segments: Record<string, string> = {}
+		let decoded = true
+		for (const [index, placeholder] of matcher.placeholders.entries()) {
+			const captured = match[index + 1]
+			if (captured === undefined && isOmittable(placeholder)) {
+				continue // Left out of the key, so it's absent from the arguments
+			}
+			const raw = decodeSegment(runtime, captured ?? "")
+			// A segment that doesn't decode (e.g. "abc" for p.number) or disagrees with an earlier
+			// occurrence of the same placeholder name means this leaf didn't produce the key
+			if (raw === undefined || (placeholder._name in segments && segments[placeholder._name] !== raw)) {
+				decoded = false
+				break
+			}
+			try {
+				args[placeholder._name] = decodePlaceholderValue(placeholder, raw)
+			} catch {
+				decoded = false
+				break
+			}
+			segments[placeholder._name] = raw
+		}
+
+		if (decoded) {
+			matches.push({ id: matcher.id, path: matcher.path, args })
+		}
+	}
+
+	return matches
+}
+
+/**
+ * Parses a concrete Redis key back into the schema leaf that produced it.
+ * The result is a discriminated union, `switch (parsed.id)` narrows `args` to that leaf's placeholders.
+ * @param keys The object returned by `defineSchema`.
+ * @param key A concrete Redis key, e.g. `"user:usr-1:orders:42"`.
+ * @returns The single matching leaf, or `null` if no leaf matches.
+ * @throws If the key matches more than one leaf (ambiguous schema).
+ */
+export function parseKey<S extends NestedSchema>(keys: DefinedKeys<S>, key: string): ParsedKey<S> | null {
+	return pickSingleMatch(key, matchKey(keys, key), "key")
+}
+
+/**
+ * Parses a channel name back into the `defineChannel` leaf that produced it, e.g. the channel of a message
+ * received on a `PSUBSCRIBE` pattern. Decode the message itself with the leaf's `codec`.
+ * @param keys The object returned by `defineSchema`.
+ * @param channel A concrete channel name, e.g. `"events:orders:42"`.
+ * @returns The single matching channel leaf, or `null` if no channel leaf matches.
+ * @throws If the channel matches more than one leaf (ambiguous schema).
+ */
+export function parseChannel<S extends NestedSchema>(keys: DefinedKeys<S>, channel: string): ParsedChannel<S> | null {
+	const matches = getSchemaRuntimes(keys).flatMap((runtime) => matchRuntimeKey(runtime, channel, true))
+	return pickSingleMatch(channel, matches as Array<ParsedChannel<S>>, "channel")
+}
+
+/** Returns the only match, throwing a `KeyParseError` when the schema is ambiguous for this key or channel */
+function pickSingleMatch<T>(key: string, matches: ReadonlyArray<T>, kind: "key" | "channel"): T | null {
+	if (matches.length > 1) {
+		const paths = matches.map((m) => (m as { id: string }).id)
+		const candidates = paths.map((path) => `"${path}"`).join(", ")
+		throw new KeyParseError(key, `the ${kind} is ambiguous, it matches multiple schema paths: ${candidates}`, {
+			paths,
+		})
+	}
+	return matches[0] ?? null
+}
+
+// --- Expiry Audit ---
+
+/**
+ * Lists every key of the schema without a TTL policy (neither its own nor an inherited one).
+ * Meant for tests/CI, e.g. `expect(findKeysWithoutTtl(keys)).toEqual([])` to forbid unbounded keys.
+ * @param keys The object returned by `defineSchema`.
+ * @returns The dotted schema paths of the keys without TTL, in schema order.
+ */
+export function findKeysWithoutTtl<S extends NestedSchema>(keys: DefinedKeys<S>): string[] {
+	return getSchemaRuntimes(keys)
+		.flatMap((runtime) => runtime.leaves)
+		.filter((leaf) => leaf.ttl === undefined && !isChannel(leaf.node)) // Channels aren't stored, nothing to expire
+		.map((leaf) => leaf.path.join("."))
+}
+
+// --- Collision Analysis ---
+
+/** Two leaves that can build the same key, as reported by `findKeyCollisions` */
+export interface KeyCollision {
+	/** Dotted schema paths of the two leaves, in schema order */
+	readonly paths: readonly [string, string]
+	/** A key both leaves can build (and `parseKey` would find ambiguous) */
+	readonly example: string
+}
+
+/** A key template unrolled into characters and placeholder holes (a hole stands for any text without the separator) */
+type TemplateToken = string | { readonly hole: Placeholder<any, any> }
+
+/** A leaf of one schema runtime, with its template unrolled once per number of kept optional segments */
+interface AnalyzedLeaf {
+	readonly id: string
+	readonly runtime: SchemaRuntime<any> & { matchers: ReadonlyArray<LeafMatcher> }
+	readonly parts: ReadonlyArray<TemplatePart>
+	readonly variants: ReadonlyArray<ReadonlyArray<TemplateToken>>
+	readonly channel: boolean // Channel names only collide with channel names
+}
+
+/** Unrolls the prefix and template parts into tokens (static text is split into single characters) */
+function tokenizeTemplate(prefix: ReadonlyArray<string>, parts: ReadonlyArray<TemplatePart>, separator: string) {
+	const tokens: TemplateToken[] = []
+	const pushPart = (part: TemplatePart) => {
+		if (typeof part === "string") {
+			tokens.push(...part)
+		} else if (isPlaceholder(part)) {
+			tokens.push(...(part._hashTag ? ["{", { hole: part }, "}"] : [{ hole: part }]))
+		} else {
+			tokens.push("{")
+			for (const [index, placeholder] of part.hashTag.entries()) {
+				tokens.push(...(index > 0 ? separator : ""), { hole: placeholder })
+			}
+			tokens.push("}")
+		}
+	}
+	for (const [index, part] of [...prefix, ...parts].entries()) {
+		tokens.push(...(index > 0 ? separator : ""))
+		pushPart(part)
+	}
+	return tokens
+}
+
+/**
+ * Searches a string both token sequences can produce, or `undefined` if there is none.
+ * A breadth-first search over pairs of positions; a hole consumes characters of the other side (never the separator),
+ * two holes facing each other are left empty.
+ */
+function intersectTemplates(
+	left: ReadonlyArray<TemplateToken>,
+	right: ReadonlyArray<TemplateToken>,
+	leftSeparator: string,
+	rightSeparator: string
+): string | undefined {
+	const width = right.length + 1
+	const visited = new Map<number, { from: number; text: string }>([[0, { from: -1, text: "" }]])
+	const queue = [0]
+	for (let cursor = 0; cursor < queue.length; cursor++) {
+		const state = queue[cursor] as number
+		const i = Math.floor(state / width)
+		const j = state % width
+		if (i === left.length && j === right.length) {
+			// Walk back the parents to spell out the example
+			let example = ""
+			for (let step = visited.get(state); step && step.from !== -1; step = visited.get(step.from)) {
+				example = step.text + example
+			}
+			return example
+		}
+		const leftToken = left[i]
+		const rightToken = right[j]
+		const moves: Array<[number, number, string]> = []
+		if (typeof leftToken === "object") {
+			moves.push([i + 1, j, ""])
+			if (typeof rightToken === "string" && !leftSeparator.startsWith(rightToken)) {
+				moves.push([i, j + 1, rightToken])
+			}
+		}
+		if (typeof rightToken === "object") {
+			moves.push([i, j + 1, ""])
+			if (typeof leftToken === "string" && !rightSeparator.startsWith(leftToken)) {
+				moves.push([i + 1, j, leftToken])
+			}
+		}
+		if (typeof leftToken === "string" && leftToken === rightToken) {
+			moves.push([i + 1, j + 1, leftToken])
+		}
+		for (const [nextI, nextJ, text] of moves) {
+			const next = nextI * width + nextJ
+			if (!visited.has(next)) {
+				visited.set(next, { from: state, text })
+				queue.push(next)
+			}
+		}
+	}
+	return undefined
+}
+
+/** A value of the placeholder's kind, used to instantiate templates when looking for an example key */
+function sampleValue(placeholder: Placeholder<any, any>): unknown {
+	if (placeholder._default !== undefined) {
+		return placeholder._default
+	}
+	const constraints = placeholder._constraints
+	if (constraints?.oneOf?.[0] !== undefined) {
+		return constraints.oneOf[0]
+	}
+	switch (placeholder._kind) {
+		case "number":
+			return constraints && "min" in constraints && constraints.min !== undefined ? Math.ceil(constraints.min) : 1
+		case "boolean":
+			return true
+		case "date":
+			return new Date(0)
+		case "uuid":
+			return "00000000-0000-4000-8000-000000000000"
+		case "custom":
+			return undefined // Nothing generic to offer
+		default:
+			return placeholder._name
+	}
+}
+
+/** Renders a leaf template with a sample value for each placeholder kept */
+function instantiateTemplate(leaf: AnalyzedLeaf, keptOptionals: number): string | undefined {
+	const render = (placeholder: Placeholder<any, any>): string | undefined => {
+		const value = sampleValue(placeholder)
+		return value === undefined ? undefined : placeholder._codec.encode(value)
+	}
+	const firstOmittable = leaf.parts.findIndex(isOmittable)
+	const parts = firstOmittable === -1 ? leaf.parts : leaf.parts.slice(0, firstOmittable + keptOptionals)
+	const segments: string[] = [...leaf.runtime.resolvePrefix()]
+	for (const part of parts) {
+		const rendered =
+			typeof part === "string"
+				? part
+				: isPlaceholder(part)
+					? render(part)
+					: part.hashTag.every((placeholder) => render(placeholder) !== undefined)
+						? `{${part.hashTag.map(render).join(leaf.runtime.separator)}}`
+						: undefined
+		if (rendered === undefined) {
+			return undefined
+		}
+		segments.push(isPlaceholder(part) && part._hashTag ? `{${rendered}}` : rendered)
+	}
+	return segments.join(leaf.runtime.separator)
+}
+
+/** Checks whether a leaf could have built the key (same test as `parseKey`, values included) */
+function leafBuildsKey(leaf: AnalyzedLeaf, key: string): boolean {
+	return matchRuntimeKey(leaf.runtime, key, leaf.channel).some((match) => match.id === leaf.id)
+}
+
+/**
+ * Finds pairs of leaves that can build the same key, e.g. `["x", p("id")]` and `["x", "profile"]` both build `x:profile`.
+ * Checks every pair, across `parameterize` levels, nested objects and merged schemas; an example key is only reported
+ * once both leaves accept it with valid values (a `p.number` placeholder doesn't collide with `"profile"`).
+ * @param keys The object returned by `defineSchema`.
+ * @returns One entry per colliding pair, in schema order (empty for an unambiguous schema).
+ */
+export function findKeyCollisions<S extends NestedSchema>(keys: DefinedKeys<S>): KeyCollision[] {
+	const leaves: AnalyzedLeaf[] = getSchemaRuntimes(keys).flatMap((runtime) => {
+		const prefix = runtime.resolvePrefix()
+		return runtime.leaves.map((leaf) => {
+			// Optional segments can be left out from the end: one variant per number of segments kept
+			const firstOmittable = leaf.parts.findIndex(isOmittable)
+			const requiredCount = firstOmittable === -1 ? leaf.parts.length : firstOmittable
+			const variants = Array.from({ length: leaf.parts.length - requiredCount + 1 }, (_, kept) =>
+				tokenizeTemplate(prefix, leaf.parts.slice(0, requiredCount + kept), runtime.separator)
+			)
+			return { id: leaf.path.join("."), runtime, parts: leaf.parts, variants, channel: isChannel(leaf.node) }
+		})
+	})
+
+	const collisions: KeyCollision[] = []
+	for (const [index, left] of leaves.entries()) {
+		for (const right of leaves.slice(index + 1)) {
+			if (left.channel !== right.channel) {
+				continue
+			}
+			const example = findCollisionExample(left, right)
+			if (example !== undefined) {
+				collisions.push({ paths: [left.id, right.id], example })
+			}
+		}
+	}
+	return collisions
+}
+
+/** Looks for a key both leaves accept: each leaf filled with sample values, then the template intersection */
+function findCollisionExample(left: AnalyzedLeaf, right: AnalyzedLeaf): string | undefined {
+	const candidates: string[] = []
+	for (const [leftKept, leftTokens] of left.variants.entries()) {
+		for (const [rightKept, rightTokens] of right.variants.entries()) {
+			const intersection = intersectTemplates(leftTokens, rightTokens, left.runtime.separator, right.runtime.separator)
+			if (intersection === undefined) {
+				continue // The templates can't overlap at all
+			}
+			// Sample values read better than the intersection's empty placeholders, so they are tried first
+			const leftSample = instantiateTemplate(left, leftKept)
+			const rightSample = instantiateTemplate(right, rightKept)
+			candidates.push(...(leftSample === undefined ? [] : [leftSample]))
+			candidates.push(...(rightSample === undefined ? [] : [rightSample]))
+			candidates.push(intersection)
+		}
+	}
+	return candidates.find((candidate) => leafBuildsKey(left, candidate) && leafBuildsKey(right, candidate))
+}
+
+// --- Introspection ---
+
+/** A placeholder of a key, as listed by `describeSchema` */
+export interface PlaceholderDescriptor {
+	readonly name: string
+	readonly type: PlaceholderKind
+	/** `"parameterize"` for path parameters of an enclosing level, `"local"` for the leaf's own definition */
+	readonly origin: "parameterize" | "local"
+	readonly hashTag: boolean
+	/** Set by `optional(...)`: the argument may be left out */
+	readonly optional: boolean
+	/** Value used when the argument is left out, if any */
+	readonly default?: unknown
+	/** Runtime constraints given to `p(...)`/`p.number(...)`, if any */
+	readonly constraints?: PlaceholderConstraints
+}
+
+/** A key of the schema, as listed by `describeSchema` */
+export interface KeyDescriptor {
+	/** Dotted schema path, e.g. `user.orders.byId` (same as `parseKey(...).id`) */
+	readonly id: string
+	readonly path: ReadonlyArray<string>
+	/**
+	 * The key with placeholders rendered as `{name}`, e.g. `user:{userId}:orders:{orderId}` (hash tags add braces: `{{userId}}`,
+	 * placeholders whose segment can be left out read `{name?}`).
+	 * Starts with the key prefix, as resolved when `describeSchema` is called.
+	 */
+	readonly template: string
+	readonly separator: string
+	/** In key order; a name appears once per occurrence */
+	readonly placeholders: ReadonlyArray<PlaceholderDescriptor>
+	/** Only set for `defineKey` leaves */
+	readonly redisType?: RedisDataType
+	/** Only set for `defineChannel` leaves: the template is a channel name, not a key */
+	readonly channel?: true
+	/** Value codec of `defineKey` leaves, message codec of `defineChannel` leaves */
+	readonly codec?: ValueCodec<unknown>
+	/** Fixed TTL in milliseconds, `"computed"` when it depends on the arguments, unset without TTL policy */
+	readonly ttl?: number | "computed"
+}
+
+/**
+ * Checks whether a value is the object returned by `defineSchema` (or a `withPrefix`/`merge` view of it).
+ * @param value Anything, e.g. the exports of a module.
+ * @returns `true` when the schema helpers (`describeSchema`, `parseKey`, ...) accept the value.
+ */
+export function isDefinedSchema(value: unknown): value is DefinedKeys<NestedSchema> {
+	return typeof value === "object" && value !== null && runtimeSchemaSymbol in value
+}
+
+/**
+ * Lists every key of the schema with its template, placeholders and metadata.
+ * Built from the same traversal as the key builders, so it's a faithful catalog for docs, dashboards and lint tooling.
+ * @param keys The object returned by `defineSchema`.
+ * @returns One descriptor per leaf, in schema order.
+ */
+export function describeSchema<S extends NestedSchema>(keys: DefinedKeys<S>): KeyDescriptor[] {
+	return getSchemaRuntimes(keys).flatMap(describeRuntime)
+}
+
+/** Describes the leaves of one schema runtime (`describeSchema` runs it for every merged schema) */
+function describeRuntime(runtime: SchemaRuntime<any>): KeyDescriptor[] {
+	const { leaves, separator, resolvePrefix } = runtime
+	const prefix = resolvePrefix()
+
+	return leaves.map((leaf) => {
+		// The leaf's own definition closes the template, everything before comes from enclosing levels
+		const localStart = leaf.parts.length - getLeafDefinition(leaf.node).length
+		const placeholders: PlaceholderDescriptor[] = []
+		const describe = (placeholder: Placeholder<any, any>, index: number, inTaggedLevel: boolean) => {
+			placeholders.push({
+				name: placeholder._name,
+				type: placeholder._kind,
+				origin: index >= localStart ? "local" : "parameterize",
+				hashTag: inTaggedLevel || placeholder._hashTag === true,
+				optional: placeholder._optional === true,
+				...(placeholder._default !== undefined ? { default: placeholder._default } : {}),
+				...(placeholder._constraints ? { constraints: placeholder._constraints } : {}),
+			})
+		}
+		const template = [
+			...prefix,
+			...leaf.parts.map((part, index) => {
+				if (typeof part === "string") {
+					return part
+				}
+				if (isPlaceholder(part)) {
+					describe(part, index, false)
+					return part._hashTag ? `{{${part._name}}}` : `{${part._name}${isOmittable(part) ? "?" : ""}}`
+				}
+				for (const placeholder of part.hashTag) {
+					describe(placeholder, index, true)
+				}
+				return `{${part.hashTag.map((placeholder) => `{${placeholder._name}}`).join(separator)}}`
+			}),
+		].join(separator)
+
+		return {
+			id: leaf.path.join("."),
+			path: leaf.path,
+			template,
+			separator,
+			placeholders,
+			...(isTypedKey(leaf.node) ? { redisType: leaf.node._redisType, codec: leaf.node._codec } : {}),
+			...(isChannel(leaf.node) ? { channel: true as const, codec: leaf.node._codec } : {}),
+			...(leaf.ttl === undefined
+				? {}
+				: { ttl: typeof leaf.ttl === "function" ? "computed" : toMilliseconds(leaf.ttl, leaf.path.join(".")) }),
+		}
+	})
+}
+
+// --- Prefix Scoping ---
+
+/**
+ * Derives a view of a built schema whose keys live under an additional prefix, e.g. a tenant.
+ * The schema isn't redefined; the view shares it and works with `parseKey`, `describeSchema` and the adapters.
+ * @param keys The object returned by `defineSchema` (or another `withPrefix` view).
+ * @param prefix The scope to add after the current prefix, static or a function evaluated on every key build.
+ * @param options `replace: true` swaps out the current prefix instead (e.g. an isolated namespace in tests).
+ * @returns A new root object with the same builders.
+ */
+export function withPrefix<S extends NestedSchema, F extends KeyFormat = any>(
+	keys: DefinedKeys<S, F>,
+	prefix: KeyPrefix,
+	options?: { replace?: boolean }
+): DefinedKeys<S, ScopedKeyFormat<F>> {
+	const resolveScope = toPrefixResolver(prefix)
+	// Every merged schema keeps its own prefix, the scope is added to each of them
+	const views = getSchemaRuntimes(keys).map((runtime) => {
+		const resolveBase = options?.replace ? noPrefix : runtime.resolvePrefix
+		return runtime.rebuild(() => [...resolveBase(), ...resolveScope()])
+	})
+	return combineViews(views) as DefinedKeys<S, ScopedKeyFormat<F>>
+}
+
+// Key format of a `withPrefix` view: the keys start with any prefix
+type ScopedKeyFormat<F extends KeyFormat> = 0 extends 1 & F
+	? any
+	: { readonly separator: F["separator"]; readonly path: string; readonly verbatim: F["verbatim"] }
+
+// --- Composition ---
+
+/**
+ * Mounts a schema built elsewhere (e.g. by another package) into a new schema, under a static key or a `parameterize` level.
+ * Its key prefix is kept right below the mount point; everything else follows the host, keys are built with the host's
+ * separator and escape policy and the mounted leaves become part of the host's `parseKey`/`describeSchema`.
+ * @param keys The object returned by `defineSchema` (or a `withPrefix` view), its prefix is resolved when mounting.
+ * @returns The schema definition, to be placed in the host schema (e.g. `{ billing: mount(billingKeys) }`).
+ */
+export function mount<S extends NestedSchema>(keys: DefinedKeys<S>): S & MountedSchema {
+	const runtime: SchemaRuntime<S> | MergedSchemaRuntime<S> | undefined = keys?.[runtimeSchemaSymbol]
+	if (!runtime) {
+		throw new RedisKeyBuilderError("[RedisKeyBuilder] mount expects the object returned by defineSchema.")
+	}
+	if ("parts" in runtime) {
+		throw new RedisKeyBuilderError(
+			"[RedisKeyBuilder] mount can't take a merge result (its schemas differ in options), mount them one by one."
+		)
+	}
+	// Spreading keeps the markers of the schema root (`withTtl`, an earlier mount)
+	return { ...runtime.schema, [runtimeMountSymbol]: [...runtime.resolvePrefix(), ...getMountPrefix(runtime.schema)] }
+}
+
+/**
+ * Adds entries to a built schema. The new keys use the same options and prefix as the existing ones.
+ * Keys already defined by the schema are rejected at compile time, identical key templates at runtime.
+ * @param keys The object returned by `defineSchema` (or a `withPrefix` view).
+ * @param entries Schema entries to add, like the ones given to `defineSchema`.
+ * @returns A new root object with the builders of both.
+ */
+export function extend<S extends NestedSchema, const E extends NestedSchema, F extends KeyFormat = any>(
+	keys: DefinedKeys<S, F>,
+	entries: E & ValidateComposition<keyof E & keyof S & string> & ValidateHashTags<E>
+): DefinedKeys<S & E, F> {
+	const runtime: SchemaRuntime<S> | MergedSchemaRuntime<S> | undefined = keys?.[runtimeSchemaSymbol]
+	if (!runtime) {
+		throw new RedisKeyBuilderError("[RedisKeyBuilder] extend expects the object returned by defineSchema.")
+	}
+	if ("parts" in runtime) {
+		throw new RedisKeyBuilderError(
+			"[RedisKeyBuilder] extend can't take a merge result (its schemas differ in options), merge a defined schema instead."
+		)
+	}
+	for (const key of Object.keys(entries)) {
+		if (Object.prototype.hasOwnProperty.call(runtime.schema, key)) {
+			throw new InvalidSchemaError(key, "the key is already defined by the extended schema")
+		}
+	}
+	const extended = runtime.redefine({ ...runtime.schema, ...entries })
+	assertDistinctTemplates(getSchemaRuntimes(extended))
+	return extended
+}
+
+// The schemas merged by `merge`, as one schema type
+type MergedSchema<T extends ReadonlyArray<unknown>> = UnionToIntersection<SchemaOf<T[number]>> extends infer M extends
+	NestedSchema
+	? M
+	: never
+
+/**
+ * Combines independently defined schemas into one root object. Each schema keeps its own options
+ * (separator, escape policy, prefix); `parseKey`, `describeSchema`, `withPrefix` and the adapters work across all of them.
+ * Top-level keys defined more than once are rejected at compile time, identical key templates at runtime.
+ * @param schemas Objects returned by `defineSchema` (or `withPrefix` views, or earlier `merge` results).
+ * @returns A new root object with the builders of every schema.
+ */
+export function merge<const T extends ReadonlyArray<DefinedKeys<any>>>(
+	...schemas: T & ValidateComposition<OverlappingKeys<T>>
+): DefinedKeys<MergedSchema<T>> {
+	const seen = new Set<string>()
+	for (const schema of schemas) {
+		for (const key of Object.keys(schema)) {
+			if (seen.has(key)) {
+				throw new InvalidSchemaError(key, "the key is defined by more than one merged schema")
+			}
+			seen.add(key)
+		}
+	}
+	const merged = combineViews(schemas)
+	assertDistinctTemplates(getSchemaRuntimes(merged))
+	return merged as DefinedKeys<MergedSchema<T>>
+}
+
+/** Combines built views into one root object, a single view is returned as is */
+function combineViews(views: ReadonlyArray<DefinedKeys<any>>): DefinedKeys<any> {
+	if (views.length === 1 && views[0] !== undefined) {
+		return views[0]
+	}
+	const parts = views.flatMap(getSchemaRuntimes)
+	// Builders are the enumerable properties, the runtime symbol isn't copied
+	const result = Object.assign({}, ...views)
+	const runtime: MergedSchemaRuntime<any> = { schema: Object.assign({}, ...parts.map((part) => part.schema)), parts }
+	Object.defineProperty(result, runtimeSchemaSymbol, { value: runtime, enumerable: false })
+	return result
+}
+
+/** Renders a template part with anonymous placeholders: leaves with the same shape build the same keys */
+function templateShape(part: TemplatePart, separator: string): string {
+	if (typeof part === "string") {
+		return part
+	}
+	if (isPlaceholder(part)) {
+		return part._hashTag ? "{{}}" : isOmittable(part) ? "{?}" : "{}"
+	}
+	return `{${part.hashTag.map((placeholder) => templateShape(placeholder, separator)).join(separator)}}`
+}
+
+/** Throws if two leaves (possibly of different schemas) would build the same keys */
+function assertDistinctTemplates(runtimes: ReadonlyArray<SchemaRuntime<any>>): void {
+	const idsByShape = new Map<string, string>()
+	for (const runtime of runtimes) {
+		const prefix = runtime.resolvePrefix()
+		for (const leaf of runtime.leaves) {
+			const shape = [...prefix, ...leaf.parts.map((part) => templateShape(part, runtime.separator))].join(
+				runtime.separator
+			)
+			const id = leaf.path.join(".")
+			const existing = idsByShape.get(shape)
+			if (existing !== undefined) {
+				throw new KeyCollisionError([existing, id], `have the same template "${shape}"`)
+			}
+			idsByShape.set(shape, id)
+		}
+	}
+}
+
+// --- Key Migration ---
+
+/** How a leaf of the previous schema version maps onto the current one, as listed by `KeyMigration.plan` */
+export interface KeyMigrationStep {
+	/** Dotted schema path in the previous version */
+	readonly from: string
+	/** Dotted schema path in the current version, `null` when the leaf was dropped */
+	readonly to: string | null
+	readonly fromTemplate: string
+	readonly toTemplate: string | null
+	/** Whether the keys move, i.e. the templates differ */
+	readonly changed: boolean
+}
+
+/** Maps keys of a previous schema version onto the current one, see `createKeyMigration` */
+export interface KeyMigration {
+	/**
+	 * Parses a key with the previous schema and builds it with the current one.
+	 * @returns The new key, or `null` when the key doesn't belong to the previous schema or its leaf was dropped.
+	 * @throws {RedisKeyBuilderError} When the key is ambiguous, or the current schema rejects its arguments.
+	 */
+	migrateKey: (key: string) => string | null
+	/** Lists every leaf of the previous schema with the template it moves to */
+	plan: () => KeyMigrationStep[]
+	/** Maps a list of keys (e.g. from `SCAN`), leaving out the ones that don't move */
+	migrateKeys: (keys: Iterable<string>) => {
+		renames: Array<[from: string, to: string]>
+		dropped: string[] // Keys of leaves that were removed
+		unmatched: string[] // Keys the previous schema doesn't know
+		failed: Array<{ key: string; error: RedisKeyBuilderError }> // Keys `migrateKey` would throw for
+	}
+}
+
+interface KeyMigrationOptions<From extends NestedSchema, To extends NestedSchema> {
+	from: DefinedKeys<From> // The previous schema version
+	to: DefinedKeys<To> // The current schema version
+	paths?: Readonly<Record<string, string | null>> // New path of moved leaves or levels (`null` drops them), by old path
+	args?: (args: Record<string, unknown>, from: string) => Record<string, unknown> // Adjusts parsed arguments, e.g. renamed placeholders
+}
+
+/**
+ * Declares how the keys of a previous schema version map onto the current one.
+ * Leaves keep their dotted path unless `paths` says otherwise, arguments are carried over by placeholder name.
+ * Without an `args` mapper, every placeholder a new leaf requires must exist in its old leaf.
+ * @param options The previous (`from`) and current (`to`) schema, plus moved leaves and an arguments mapper.
+ * @returns The mapper and the migration plan.
+ */
+export function createKeyMigration<From extends NestedSchema, To extends NestedSchema>(
+	options: KeyMigrationOptions<From, To>
+): KeyMigration {
+	const { from, to, paths = {}, args: mapArgs } = options
+	const oldLeaves = new Map(
+		getSchemaRuntimes(from).flatMap((runtime) => runtime.leaves.map((leaf) => [leaf.path.join("."), leaf]))
+	)
+	const newLeaves = new Map(
+		getSchemaRuntimes(to).flatMap((runtime) => runtime.leaves.map((leaf) => [leaf.path.join("."), leaf]))
+	)
+	const oldTemplates = new Map(describeSchema(from).map((descriptor) => [descriptor.id, descriptor.template]))
+	const newTemplates = new Map(describeSchema(to).map((descriptor) => [descriptor.id, descriptor.template]))
+
+	const isBelow = (path: string, level: string) => path === level || path.startsWith(`${level}.`)
+	for (const oldPath of Object.keys(paths)) {
+		if (![...oldLeaves.keys()].some((path) => isBelow(path, oldPath))) {
+			throw new InvalidSchemaError(oldPath, "the path is not a key or level of the previous schema")
+		}
+	}
+
+	// Target leaf of every old leaf, `null` when dropped (walked by its path array, schema keys may contain dots)
+	const targets = new Map<string, LeafTemplate | null>()
+	for (const [oldPath, oldLeaf] of oldLeaves) {
+		// The most specific entry of `paths` wins, a level moves every leaf below it
+		const moved = Object.keys(paths)
+			.filter((level) => isBelow(oldPath, level))
+			.sort((a, b) => b.length - a.length)[0]
+		let newPath: string | null = oldPath
+		if (moved !== undefined) {
+			const movedTo = paths[moved] ?? null
+			newPath = movedTo === null ? null : movedTo + oldPath.slice(moved.length)
+		}
+		if (newPath !== null && !newLeaves.has(newPath)) {
+			if (moved !== undefined) {
+				throw new InvalidSchemaError(newPath, `the path is not a key of the current schema (moved from "${oldPath}")`)
+			}
+			targets.set(oldPath, null) // Not in the current schema anymore
+			continue
+		}
+		const newLeaf = newPath === null ? undefined : newLeaves.get(newPath)
+		targets.set(oldPath, newLeaf ?? null)
+		if (newLeaf === undefined || mapArgs) {
+			continue
+		}
+		// Caught now rather than on the first key that can't be built
+		const provided = new Set(leafPlaceholders(oldLeaf).map((placeholder) => placeholder._name))
+		const missing = leafPlaceholders(newLeaf).find(
+			(placeholder) => !provided.has(placeholder._name) && !placeholder._optional && placeholder._default === undefined
+		)
+		if (missing) {
+			throw new InvalidSchemaError(
+				newPath ?? "",
+				`the key needs "${missing._name}", which keys of "${oldPath}" don't have (map it with \`args\`)`
+			)
+		}
+	}
+
+	// `undefined` for keys the previous schema doesn't know, `null` for keys of dropped leaves
+	const migrate = (key: string): string | null | undefined => {
+		const parsed = parseKey(from, key) as { id: string; args: Record<string, unknown> } | null
+		if (!parsed) {
+			return undefined
+		}
+		const newLeaf = targets.get(parsed.id) ?? null
+		if (newLeaf === null) {
+			return null
+		}
+		return buildLeafKey(to, newLeaf.path, mapArgs ? mapArgs(parsed.args, parsed.id) : parsed.args)
+	}
+
+	return {
+		migrateKey: (key) => migrate(key) ?? null,
+		plan: () =>
+			[...targets].map(([oldPath, newLeaf]) => {
+				const newPath = newLeaf === null ? null : newLeaf.path.join(".")
+				const fromTemplate = oldTemplates.get(oldPath) ?? ""
+				const toTemplate = newPath === null ? null : (newTemplates.get(newPath) ?? null)
+				return { from: oldPath, to: newPath, fromTemplate, toTemplate, changed: fromTemplate !== toTemplate }
+			}),
+		migrateKeys: (keys) => {
+			const result: ReturnType<KeyMigration["migrateKeys"]> = { renames: [], dropped: [], unmatched: [], failed: [] }
+			for (const key of keys) {
+				let newKey: string | null | undefined
+				try {
+					newKey = migrate(key)
+				} catch (error) {
+					// One bad key shouldn't abort a whole `SCAN` batch, errors of an `args` mapper still do
+					if (!(error instanceof RedisKeyBuilderError)) {
+						throw error
+					}
+					result.failed.push({ key, error })
+					continue
+				}
+				if (newKey === undefined) {
+					result.unmatched.push(key)
+				} else if (newKey === null) {
+					result.dropped.push(key)
+				} else if (newKey !== key) {
+					result.renames.push([key, newKey])
+				}
+			}
+			return result
+		},
+	}
+}
+
+/** Lists the placeholders of a leaf template, hash-tagged path parameters included */
+function leafPlaceholders(leaf: LeafTemplate): Array<Placeholder<any, any>> {
+	return leaf.parts.flatMap((part) => (typeof part === "string" ? [] : isPlaceholder(part) ? [part] : part.hashTag))
+}
+
+/** Builds the key of the leaf at `path`, calling the `parameterize` levels on the way with the same arguments */
+function buildLeafKey(keys: DefinedKeys<any>, path: ReadonlyArray<string>, args: Record<string, unknown>): string {
+	let node: unknown = keys[runtimeSchemaSymbol].schema
+	let level: Record<string, unknown> = keys
+	for (const [index, segment] of path.entries()) {
+		node = (node as NestedSchema)[segment]
+		const builder = level[segment]
+		if (index === path.length - 1) {
+			return (builder as (args: Record<string, unknown>) => string)(args)
+		}
+		if (isParameterized(node)) {
+			level = (builder as (args: Record<string, unknown>) => Record<string, unknown>)(args)
+			node = node._schema
+		} else {
+			level = builder as Record<string, unknown>
+		}
+	}
+	throw new RedisKeyBuilderError(`[RedisKeyBuilder] "${path.join(".")}" is not a key of the schema.`)
 }
@@ -0,0 +1,20 @@
+import { createHash } from "node:crypto"
+import { describe, expect, it } from "vitest"
+import { sha1Hex } from "./sha1"
+
+describe("SHA-1", () => {
+	// Reference values from FIPS 180-2
+	it("should match the standard test vectors", () => {
+		expect(sha1Hex("")).toBe("da39a3ee5e6b4b0d3255bfef95601890afd80709")
+		expect(sha1Hex("abc")).toBe("a9993e364706816aba3e25717850c26c9cd0d89d")
+		expect(sha1Hex("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq")).toBe(
+			"84983e441c3bd26ebaae4aa1f95129e5e54670f1"
+		)
+	})
+
+	it("should agree with node:crypto across block boundaries and non-ASCII text", () => {
+		for (const value of ["a".repeat(55), "a".repeat(56), "a".repeat(64), "b".repeat(1000), "ключ:🔑:キー"]) {
+			expect(sha1Hex(value)).toBe(createHash("sha1").update(value).digest("hex"))
+		}
+	})
+})
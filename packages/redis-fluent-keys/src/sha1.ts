@@ -0,0 +1,69 @@
+// --- SHA-1 ---
+
+const utf8 = new TextEncoder()
+
+/** Rotates a 32-bit word to the left */
+function rotl(word: number, bits: number): number {
+	return (word << bits) | (word >>> (32 - bits))
+}
+
+/**
+ * Computes the SHA-1 digest of a string's UTF-8 bytes, synchronously and without `node:crypto`
+ * (the key builder runs in browsers and edge runtimes too). Used for stable digests, not for security.
+ * @param value The text to hash.
+ * @returns The digest as 40 lowercase hex characters.
+ */
+export function sha1Hex(value: string): string {
+	const bytes = utf8.encode(value)
+	// Message + 0x80 + zero padding + 64-bit length, rounded up to whole 64-byte blocks
+	const blockCount = Math.ceil((bytes.length + 9) / 64)
+	const message = new Uint8Array(blockCount * 64)
+	message.set(bytes)
+	message[bytes.length] = 0x80
+	const view = new DataView(message.buffer)
+	const bitLength = bytes.length * 8
+	view.setUint32(message.length - 8, Math.floor(bitLength / 0x100000000))
+	view.setUint32(message.length - 4, bitLength >>> 0)
+
+	const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]
+	const words = new Uint32Array(80)
+	for (let block = 0; block < blockCount; block++) {
+		for (let index = 0; index < 16; index++) {
+			words[index] = view.getUint32(block * 64 + index * 4)
+		}
+		for (let index = 16; index < 80; index++) {
+			words[index] = rotl(
+				(words[index - 3] as number) ^
+					(words[index - 8] as number) ^
+					(words[index - 14] as number) ^
+					(words[index - 16] as number),
+				1
+			)
+		}
+
+		let [a, b, c, d, e] = state as [number, number, number, number, number]
+		for (let index = 0; index < 80; index++) {
+			const [f, k] =
+				index < 20
+					? [(b & c) | (~b & d), 0x5a827999]
+					: index < 40
+						? [b ^ c ^ d, 0x6ed9eba1]
+						: index < 60
+							? [(b & c) | (b & d) | (c & d), 0x8f1bbcdc]
+							: [b ^ c ^ d, 0xca62c1d6]
+			const next = (rotl(a, 5) + f + e + k + (words[index] as number)) >>> 0
+			e = d
+			d = c
+			c = rotl(b, 30) >>> 0
+			b = a
+			a = next
+		}
+		state[0] = ((state[0] as number) + a) >>> 0
+		state[1] = ((state[1] as number) + b) >>> 0
+		state[2] = ((state[2] as number) + c) >>> 0
+		state[3] = ((state[3] as number) + d) >>> 0
+		state[4] = ((state[4] as number) + e) >>> 0
+	}
+
+	return state.map((word) => word.toString(16).padStart(8, "0")).join("")
+}
@@ -0,0 +1,28 @@
+import {
+	codec,
+	createKeyBuilder,
+	defineChannel,
+	defineKey,
+	hashTag,
+	optional,
+	p,
+	parameterize,
+	withTtl,
+} from "../src/index"
+
+/** Schemas loaded by the catalog CLI tests */
+export const keys = createKeyBuilder({ prefix: "app" })({
+	user: parameterize(p("userId"), {
+		profile: defineKey(["profile"], { type: "json", value: codec.json<{ name: string }>() }),
+		sessions: withTtl(["session", p("sessionId", { pattern: /^s-/ })], { seconds: 90 }),
+		feed: ["feed", optional(p.number("page", { min: 1 }), { default: 1 })],
+	}),
+	cart: hashTag(parameterize(p("cartId"), { items: withTtl(["items"], () => ({ seconds: 3600 })) })),
+})
+
+export const jobs = createKeyBuilder()({
+	queue: ["queue", p.enum("priority", ["high", "low"])],
+	finished: defineChannel(["finished", p("jobId")], { message: codec.json<{ ok: boolean }>() }),
+})
+
+export const notASchema = { queue: ["queue"] }
@@ -0,0 +1,66 @@
+type PatternListener = (message: string, channel: string, pattern: string) => void
+type ChannelListener = (message: string, channel: string) => void
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&")
+}
+
+/** Converts a Redis glob (`*`, `?`, `[...]`, `\` escapes) into an anchored regular expression */
+function globToRegExp(pattern: string): RegExp {
+	let source = ""
+	for (let index = 0; index < pattern.length; index++) {
+		const char = pattern[index] as string
+		if (char === "\\" && index + 1 < pattern.length) {
+			source += escapeRegExp(pattern[++index] as string)
+		} else if (char === "*") {
+			source += "[\\s\\S]*"
+		} else if (char === "?") {
+			source += "[\\s\\S]"
+		} else if (char === "[") {
+			const end = pattern.indexOf("]", index + 1)
+			source += end === -1 ? "\\[" : `[${pattern.slice(index + 1, end)}]` // Same syntax, `^` negates
+			index = end === -1 ? index : end
+		} else {
+			source += escapeRegExp(char)
+		}
+	}
+	return new RegExp(`^${source}$`)
+}
+
+/**
+ * A tiny in-memory Pub/Sub, just enough for the channel tests.
+ * Delivery is synchronous; `publish` returns the number of receiving listeners like `PUBLISH` does.
+ */
+export function createMemoryPubSub() {
+	const channels = new Map<string, Set<ChannelListener>>()
+	const patterns = new Map<string, { regex: RegExp; listeners: Set<PatternListener> }>()
+
+	return {
+		publish: (channel: string, message: string) => {
+			let receivers = 0
+			for (const listener of channels.get(channel) ?? []) {
+				listener(message, channel)
+				receivers++
+			}
+			for (const [pattern, { regex, listeners }] of patterns) {
+				if (!regex.test(channel)) {
+					continue
+				}
+				for (const listener of listeners) {
+					listener(message, channel, pattern)
+					receivers++
+				}
+			}
+			return receivers
+		},
+		subscribe: (channel: string, listener: ChannelListener) => {
+			const listeners = channels.get(channel) ?? new Set()
+			channels.set(channel, listeners.add(listener))
+		},
+		psubscribe: (pattern: string, listener: PatternListener) => {
+			const subscription = patterns.get(pattern) ?? { regex: globToRegExp(pattern), listeners: new Set() }
+			subscription.listeners.add(listener)
+			patterns.set(pattern, subscription)
+		},
+	}
+}
@@ -0,0 +1,120 @@
+import type { IoredisLike, NodeRedisLike } from "../src/adapters"
+
+interface EntryValues {
+	string: string
+	hash: Map<string, string>
+	set: Set<string>
+	zset: Map<string, number>
+}
+
+type Entry = { [T in keyof EntryValues]: { type: T; value: EntryValues[T] } }[keyof EntryValues]
+
+/**
+ * A tiny in-memory Redis, just enough for the adapter tests.
+ * Exposes the data plus `ioredis`- and `node-redis`-shaped facades over it.
+ */
+export function createMemoryRedis() {
+	const data = new Map<string, Entry>()
+	const expiries = new Map<string, number>() // key -> ttl in ms, time never passes in tests
+
+	function entry<T extends Entry["type"]>(key: string, type: T): Extract<Entry, { type: T }> {
+		const existing = data.get(key)
+		if (existing && existing.type !== type) {
+			throw new Error("WRONGTYPE Operation against a key holding the wrong kind of value")
+		}
+		if (existing) {
+			return existing as Extract<Entry, { type: T }>
+		}
+		const value = type === "string" ? "" : type === "set" ? new Set() : new Map()
+		const created = { type, value } as Extract<Entry, { type: T }>
+		data.set(key, created)
+		return created
+	}
+
+	function read<T extends Entry["type"]>(key: string, type: T): EntryValues[T] | undefined {
+		const existing = data.get(key)
+		return existing?.type === type ? (existing.value as EntryValues[T]) : undefined
+	}
+
+	const commands = {
+		get: async (key: string) => read(key, "string") ?? null,
+		set: async (key: string, value: string, expireMs?: number) => {
+			data.set(key, { type: "string", value })
+			if (expireMs === undefined) {
+				expiries.delete(key)
+			} else {
+				expiries.set(key, expireMs)
+			}
+			return "OK"
+		},
+		del: async (...keys: string[]) => keys.filter((key) => data.delete(key)).length,
+		pexpire: async (key: string, ms: number) => {
+			if (!data.has(key)) {
+				return 0
+			}
+			expiries.set(key, ms)
+			return 1
+		},
+		exists: async (...keys: string[]) => keys.filter((key) => data.has(key)).length,
+		hget: async (key: string, field: string) => read(key, "hash")?.get(field) ?? null,
+		hset: async (key: string, field: string, value: string) => {
+			const hash = entry(key, "hash").value
+			const added = hash.has(field) ? 0 : 1
+			hash.set(field, value)
+			return added
+		},
+		hgetall: async (key: string) => Object.fromEntries(read(key, "hash") ?? []),
+		hdel: async (key: string, ...fields: string[]) => fields.filter((f) => read(key, "hash")?.delete(f)).length,
+		sadd: async (key: string, ...members: string[]) => {
+			const set = entry(key, "set").value
+			return members.filter((m) => !set.has(m) && set.add(m)).length
+		},
+		srem: async (key: string, ...members: string[]) => members.filter((m) => read(key, "set")?.delete(m)).length,
+		smembers: async (key: string) => [...(read(key, "set") ?? [])],
+		sismember: async (key: string, member: string) => (read(key, "set")?.has(member) ? 1 : 0),
+		zadd: async (key: string, score: number, member: string) => {
+			entry(key, "zset").value.set(member, score)
+			return 1
+		},
+		zrem: async (key: string, ...members: string[]) => members.filter((m) => read(key, "zset")?.delete(m)).length,
+		zscore: async (key: string, member: string) => {
+			const score = read(key, "zset")?.get(member)
+			return score === undefined ? null : String(score)
+		},
+		zrange: async (key: string, start: number, stop: number) => {
+			const sorted = [...(read(key, "zset") ?? [])].sort((a, b) => a[1] - b[1]).map(([member]) => member)
+			return sorted.slice(start, stop === -1 ? undefined : stop + 1)
+		},
+	}
+
+	const ioredis: IoredisLike = {
+		...commands,
+		set: (key, value, ...args) => commands.set(key, value, args[0] === "PX" ? Number(args[1]) : undefined),
+	}
+
+	const toArray = (value: string | string[]) => (Array.isArray(value) ? value : [value])
+	const nodeRedis: NodeRedisLike = {
+		get: commands.get,
+		set: (key, value, options) => commands.set(key, value, options?.PX),
+		del: (keys) => commands.del(...toArray(keys)),
+		pExpire: async (key, ms) => (await commands.pexpire(key, ms)) === 1,
+		exists: (keys) => commands.exists(...toArray(keys)),
+		hGet: commands.hget,
+		hSet: commands.hset,
+		hGetAll: commands.hgetall,
+		hDel: (key, fields) => commands.hdel(key, ...toArray(fields)),
+		sAdd: (key, members) => commands.sadd(key, ...toArray(members)),
+		sRem: (key, members) => commands.srem(key, ...toArray(members)),
+		sMembers: commands.smembers,
+		sIsMember: async (key, member) => (await commands.sismember(key, member)) === 1,
+		zAdd: (key, { score, value }) => commands.zadd(key, score, value),
+		zRem: (key, members) => commands.zrem(key, ...toArray(members)),
+		zScore: async (key, member) => {
+			const score = await commands.zscore(key, member)
+			return score === null ? null : Number(score)
+		},
+		zRange: commands.zrange,
+	}
+
+	return { data, expiries, ioredis, nodeRedis }
+}
@@ -0,0 +1,113 @@
+import { getHashTag } from "../src/cluster"
+
+/** The parts of a placeholder the reference builder reads */
+interface ReferencePlaceholder {
+	readonly _name: string
+	readonly _kind: string
+	readonly _default?: unknown
+	readonly _hashTag?: true
+	readonly _codec: { readonly encode: (value: any) => string }
+}
+
+const placeholderSymbol = Symbol.for("redis-fluent-keys/placeholder")
+const parameterizedSymbol = Symbol.for("redis-fluent-keys/parameterized")
+const typedKeySymbol = Symbol.for("redis-fluent-keys/typed-key")
+
+function isPlaceholder(value: unknown): value is ReferencePlaceholder {
+	return typeof value === "object" && value !== null && placeholderSymbol in value
+}
+
+const escapeGlob = (text: string) => text.replace(/[*?[\]\\]/g, "\\$&")
+
+/**
+ * The key builder as it was before schemas were compiled, kept as a benchmark baseline: every call of a
+ * `parameterize` level walks its sub-schema again, checks every node, renders the key template of every leaf
+ * and creates new builders, and every key build goes over the full definition part by part. Values get the
+ * type and separator checks of the real builder. Only covers what the benchmark schemas use (leaves,
+ * `defineKey`, nested objects, `parameterize` and `hashTag` levels); TTLs and typed errors are left out.
+ */
+export function createReferenceKeyBuilder(options: { prefix?: string }) {
+	const separator = ":"
+	const prefix = options.prefix === undefined ? [] : [options.prefix]
+
+	function serializeValue(placeholder: ReferencePlaceholder, args: Record<string, unknown> | undefined): string {
+		const value = args?.[placeholder._name] ?? placeholder._default
+		if (value === undefined || value === null) {
+			throw new Error(`Missing value for "${placeholder._name}"`)
+		}
+		const valid =
+			placeholder._kind === "number"
+				? typeof value === "number" && Number.isFinite(value)
+				: typeof value !== "object" && typeof value !== "function" && typeof value !== "symbol"
+		if (!valid) {
+			throw new Error(`Invalid value for "${placeholder._name}"`)
+		}
+		const raw = placeholder._codec.encode(value)
+		if (raw.includes(separator)) {
+			throw new Error(`Unsafe value for "${placeholder._name}"`)
+		}
+		return raw
+	}
+
+	function processSchemaLevel(schemaLevel: Record<string, any>, parentPrefix: ReadonlyArray<string>): any {
+		const levelResult: Record<string, unknown> = {}
+		for (const key in schemaLevel) {
+			if (!Object.prototype.hasOwnProperty.call(schemaLevel, key)) {
+				continue
+			}
+			const value = schemaLevel[key]
+			if (typeof value === "object" && value !== null && parameterizedSymbol in value) {
+				const placeholders: ReferencePlaceholder[] = Array.isArray(value._placeholders)
+					? value._placeholders
+					: [value._placeholders]
+				const resolveLevel = (paramArgs: Record<string, unknown>) => {
+					const paramValues = placeholders.map((placeholder) => {
+						const segment = serializeValue(placeholder, paramArgs)
+						return placeholder._hashTag ? `{${segment}}` : segment
+					})
+					const params = value._hashTag ? [`{${paramValues.join(separator)}}`] : paramValues
+					return processSchemaLevel(value._schema, [...parentPrefix, key, ...params])
+				}
+				levelResult[key] = Object.assign(resolveLevel, { pattern: resolveLevel })
+			} else if (Array.isArray(value) || (typeof value === "object" && value !== null && typedKeySymbol in value)) {
+				const fullPathDefinition = [...parentPrefix, ...(Array.isArray(value) ? value : value._definition)]
+				const prefixHashTag = parentPrefix.map((segment) => getHashTag(segment)).find(Boolean)
+				const keyPathHint = fullPathDefinition
+					.map((part) => (typeof part === "string" ? part : isPlaceholder(part) ? part._name : ""))
+					.join(separator)
+				const builder = (args: Record<string, unknown> | undefined, glob: boolean): string => {
+					const keyParts: string[] = prefix.map((segment) => (glob ? escapeGlob(segment) : segment))
+					let expectedHashTag = prefixHashTag
+					for (const part of fullPathDefinition) {
+						if (typeof part === "string") {
+							keyParts.push(glob ? escapeGlob(part) : part)
+						} else if (isPlaceholder(part)) {
+							const segment = serializeValue(part, args)
+							if (part._hashTag) {
+								expectedHashTag = segment
+								keyParts.push(`{${segment}}`)
+							} else {
+								keyParts.push(segment)
+							}
+						}
+					}
+					const builtKey = keyParts.join(separator)
+					if (expectedHashTag !== undefined && getHashTag(builtKey) !== expectedHashTag) {
+						throw new Error(`Key "${builtKey}" (${keyPathHint}) would not be hashed on its hash tag`)
+					}
+					return builtKey
+				}
+				levelResult[key] = Object.assign((args?: Record<string, unknown>) => builder(args, false), {
+					pattern: (args?: Record<string, unknown>) => builder(args, true),
+					ttl: () => undefined,
+					keyPathHint,
+				})
+			} else if (typeof value === "object" && value !== null) {
+				levelResult[key] = processSchemaLevel(value, [...parentPrefix, key])
+			}
+		}
+		return levelResult
+	}
+
+	return (schema: Record<string, any>) => processSchemaLevel(schema, [])
+}
@@ -1,9 +1,10 @@
 import { defineConfig } from "tsup"
 
 export default defineConfig({
-	entry: ["src/index.ts"],
+	entry: ["src/index.ts", "src/adapters.ts", "src/catalog.ts", "src/cli.ts"],
 	sourcemap: true,
 	clean: true,
+	splitting: true, // Subpath entries share one copy of index.ts (error classes, schema markers) in CJS too
 	dts: true,
 	minify: false,
 	format: ["esm", "cjs"],